@@ -0,0 +1,112 @@
+// Neko Admin Panel Component - Room moderation for admin members
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Lock, Unlock, Monitor, MonitorOff, MicOff, Mic, UserX } from 'lucide-react';
+import type { UseNekoReturn } from '@/hooks/use-neko';
+
+interface NekoAdminPanelProps {
+  neko: UseNekoReturn;
+}
+
+export function NekoAdminPanel({ neko }: NekoAdminPanelProps) {
+  const { members, memberId, controllerId, locked } = neko.state;
+  const others = members.filter(m => m.id !== memberId);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3 flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">Moderation</CardTitle>
+        {locked && (
+          <Badge variant="secondary">
+            <Lock className="w-3 h-3 mr-1" />
+            Room locked
+          </Badge>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {locked ? (
+            <Button variant="outline" size="sm" onClick={() => neko.unlockRoom()}>
+              <Unlock className="w-4 h-4 mr-1" />
+              Unlock room
+            </Button>
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => neko.lockRoom()}>
+              <Lock className="w-4 h-4 mr-1" />
+              Lock room
+            </Button>
+          )}
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => neko.forceControl()}
+            disabled={controllerId === memberId}
+          >
+            <Monitor className="w-4 h-4 mr-1" />
+            Take control
+          </Button>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => neko.forceRelease()}
+            disabled={!controllerId}
+          >
+            <MonitorOff className="w-4 h-4 mr-1" />
+            Release control
+          </Button>
+        </div>
+
+        {others.length > 0 && (
+          <ul className="space-y-2">
+            {others.map((member) => (
+              <li key={member.id} className="flex items-center justify-between gap-2">
+                <span className="text-sm text-foreground truncate">
+                  {member.displayName}
+                  {member.muted && (
+                    <span className="text-muted-foreground"> (muted)</span>
+                  )}
+                </span>
+
+                <div className="flex gap-1 shrink-0">
+                  {member.muted ? (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Unmute input"
+                      onClick={() => neko.unmuteMember(member.id)}
+                    >
+                      <Mic className="w-4 h-4" />
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Mute input"
+                      onClick={() => neko.muteMember(member.id)}
+                    >
+                      <MicOff className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title="Kick"
+                    className="text-destructive"
+                    onClick={() => neko.kickMember(member.id)}
+                    disabled={member.admin}
+                  >
+                    <UserX className="w-4 h-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,20 +1,139 @@
 // Neko Browser - Full browser interface component
 
 import { useNeko } from '@/hooks/use-neko';
+import { toast } from '@/hooks/use-toast';
 import { NekoVideo } from './NekoVideo';
 import { NekoControls } from './NekoControls';
-import { Maximize2, Minimize2 } from 'lucide-react';
-import { useState, useCallback, useRef } from 'react';
+import { NekoControlRequests } from './NekoControlRequests';
+import { NekoAdminPanel } from './NekoAdminPanel';
+import { NekoVolume } from './NekoVolume';
+import { NekoStatsOverlay } from './NekoStatsOverlay';
+import { NekoVirtualKeyboard } from './NekoVirtualKeyboard';
+import { NekoChat } from './NekoChat';
+import { NekoUploads } from './NekoUploads';
+import { NekoDownloads } from './NekoDownloads';
+import { Activity, Download, Keyboard, Lock, Maximize2, MessageSquare, Minimize2, Upload, VolumeX } from 'lucide-react';
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { formatChord } from '@/lib/neko/hotkeys';
 import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+
+// Wait for resizing to settle before asking for a new remote resolution
+const MATCH_WINDOW_DEBOUNCE = 500;
+
+// Holding Escape this long leaves fullscreen while the keyboard is locked
+const ESCAPE_HOLD_DURATION = 1000;
+const KEYBOARD_HINT_DURATION = 4000;
+
+// Keyboard Lock API, only available in Chromium browsers
+type LockableKeyboard = { lock?: () => Promise<void>; unlock?: () => void };
+
+function getKeyboard(): LockableKeyboard | undefined {
+  return (navigator as Navigator & { keyboard?: LockableKeyboard }).keyboard;
+}
 
 interface NekoBrowserProps {
   className?: string;
 }
 
 export function NekoBrowser({ className = '' }: NekoBrowserProps) {
-  const neko = useNeko();
+  const neko = useNeko({
+    onMemberJoined: (member) => {
+      toast({ description: `${member.displayName} joined the session` });
+    },
+    onMemberLeft: (member) => {
+      toast({ description: `${member.displayName} left the session` });
+    },
+    onControlRequested: (member) => {
+      toast({ description: `${member.displayName} is requesting control` });
+    },
+    onControlDenied: () => {
+      toast({ description: 'Your request for control was denied' });
+    },
+    onDownloadAdded: (download) => {
+      toast({ description: `${download.name} finished downloading in the remote browser` });
+    },
+  });
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [keyboardOpen, setKeyboardOpen] = useState(false);
+  const [keyboardDocked, setKeyboardDocked] = useState(false);
+  // null until fullscreen tried to lock the keyboard
+  const [keyboardLocked, setKeyboardLocked] = useState<boolean | null>(null);
+  const [showKeyboardHint, setShowKeyboardHint] = useState(false);
+  const [chatOpen, setChatOpen] = useState(false);
+  // Id of the newest chat entry seen with the panel open
+  const [chatReadId, setChatReadId] = useState(0);
+  const isAdmin = neko.state.members.some(m => m.id === neko.state.memberId && m.admin);
   const containerRef = useRef<HTMLDivElement>(null);
+  const videoContainerRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { matchWindow, controlling } = neko.state;
+  const { setMatchWindowSize } = neko;
+  const { chat } = neko.state;
+  const lastChatId = chat.length > 0 ? chat[chat.length - 1].id : 0;
+  const unreadChat = chatOpen ? 0 : chat.filter(e => e.id > chatReadId && e.kind === 'message' && !e.self).length;
+  // Downloads being fetched stay visible on the button while the panel is closed
+  const fetching = Object.values(neko.state.downloadProgress);
+  const fetchingTotal = fetching.reduce((sum, p) => sum + p.total, 0);
+  const fetchingPercent = fetching.length > 0 && fetching.every(p => p.total > 0)
+    ? Math.floor((fetching.reduce((sum, p) => sum + p.received, 0) / fetchingTotal) * 100)
+    : null;
+  
+  useEffect(() => {
+    if (chatOpen) {
+      setChatReadId(lastChatId);
+    }
+  }, [chatOpen, lastChatId]);
+  
+  // "Match my window": report the video area size in device pixels
+  useEffect(() => {
+    const element = videoContainerRef.current;
+    if (!matchWindow || !controlling || !element) return;
+    
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const report = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        const ratio = window.devicePixelRatio || 1;
+        setMatchWindowSize(element.clientWidth * ratio, element.clientHeight * ratio);
+      }, MATCH_WINDOW_DEBOUNCE);
+    };
+    
+    // Browser zoom changes devicePixelRatio and fires a window resize
+    const observer = new ResizeObserver(report);
+    observer.observe(element);
+    window.addEventListener('resize', report);
+    
+    return () => {
+      if (timer) clearTimeout(timer);
+      observer.disconnect();
+      window.removeEventListener('resize', report);
+    };
+  }, [matchWindow, controlling, setMatchWindowSize]);
+  
+  // In fullscreen, capture shortcuts like Ctrl+W, Alt+Tab and Escape so they
+  // reach the remote; other browsers keep them and fullscreen works as before
+  const lockKeyboard = useCallback(async () => {
+    const keyboard = getKeyboard();
+    let locked = false;
+    if (keyboard?.lock) {
+      try {
+        await keyboard.lock();
+        locked = true;
+      } catch (error) {
+        console.warn('[Neko] Keyboard lock unavailable:', error);
+      }
+    }
+    setKeyboardLocked(locked);
+    setShowKeyboardHint(true);
+  }, []);
+  
+  const unlockKeyboard = useCallback(() => {
+    getKeyboard()?.unlock?.();
+    setKeyboardLocked(null);
+    setShowKeyboardHint(false);
+  }, []);
   
   const toggleFullscreen = useCallback(async () => {
     if (!containerRef.current) return;
@@ -23,25 +142,72 @@ export function NekoBrowser({ className = '' }: NekoBrowserProps) {
       if (!document.fullscreenElement) {
         await containerRef.current.requestFullscreen();
         setIsFullscreen(true);
+        await lockKeyboard();
       } else {
+        unlockKeyboard();
         await document.exitFullscreen();
         setIsFullscreen(false);
       }
     } catch (error) {
       console.error('Fullscreen error:', error);
     }
-  }, []);
-  
-  // Listen for fullscreen changes
-  const handleFullscreenChange = useCallback(() => {
-    setIsFullscreen(!!document.fullscreenElement);
-  }, []);
+  }, [lockKeyboard, unlockKeyboard]);
   
-  // Add fullscreen listener
-  useState(() => {
+  // Listen for fullscreen changes, including leaving it by other means
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      setIsFullscreen(!!document.fullscreenElement);
+      if (!document.fullscreenElement) {
+        unlockKeyboard();
+      }
+    };
+    
     document.addEventListener('fullscreenchange', handleFullscreenChange);
     return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
-  });
+  }, [unlockKeyboard]);
+  
+  // The lock hint fades to an icon after a few seconds
+  useEffect(() => {
+    if (!showKeyboardHint) return;
+    const timer = setTimeout(() => setShowKeyboardHint(false), KEYBOARD_HINT_DURATION);
+    return () => clearTimeout(timer);
+  }, [showKeyboardHint]);
+  
+  // With Escape captured, holding it is the way out of fullscreen; a short
+  // press still reaches the remote, but its auto-repeat is held back so the
+  // hold does not arrive there as a stream of presses. Listening in the
+  // capture phase runs this before the video's window keydown handler
+  useEffect(() => {
+    if (!keyboardLocked) return;
+    
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      if (event.repeat && timer) {
+        event.preventDefault();
+        event.stopImmediatePropagation();
+        return;
+      }
+      if (event.repeat || timer) return;
+      timer = setTimeout(() => {
+        timer = null;
+        document.exitFullscreen().catch((error) => console.error('Fullscreen error:', error));
+      }, ESCAPE_HOLD_DURATION);
+    };
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape' || !timer) return;
+      clearTimeout(timer);
+      timer = null;
+    };
+    
+    window.addEventListener('keydown', handleKeyDown, true);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      if (timer) clearTimeout(timer);
+      window.removeEventListener('keydown', handleKeyDown, true);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [keyboardLocked]);
   
   return (
     <div 
@@ -49,38 +215,207 @@ export function NekoBrowser({ className = '' }: NekoBrowserProps) {
       className={`flex flex-col bg-background ${className} ${isFullscreen ? 'fixed inset-0 z-50' : ''}`}
     >
       {/* Controls */}
-      <div className="p-4 border-b border-border">
+      <div className="p-4 border-b border-border space-y-4">
         <NekoControls neko={neko} />
+        {neko.state.connected && isAdmin && <NekoAdminPanel neko={neko} />}
       </div>
       
-      {/* Video Container */}
-      <div className="flex-1 relative min-h-0">
-        <NekoVideo 
-          neko={neko} 
-          className="absolute inset-0"
-        />
-        
-        {/* Fullscreen Button */}
-        <Button
-          variant="secondary"
-          size="icon"
-          className="absolute bottom-4 right-4 opacity-70 hover:opacity-100"
-          onClick={toggleFullscreen}
-        >
-          {isFullscreen ? (
-            <Minimize2 className="w-4 h-4" />
-          ) : (
-            <Maximize2 className="w-4 h-4" />
-          )}
-        </Button>
-        
-        {/* Control indicator */}
-        {neko.state.controlling && (
-          <div className="absolute top-4 right-4 px-3 py-1 bg-primary/90 text-primary-foreground text-sm rounded-full">
-            Press Escape to release control
+      {/* Video, with the chat beside it */}
+      <ResizablePanelGroup direction="horizontal" className="flex-1 min-h-0">
+        <ResizablePanel id="video" order={1} minSize={40}>
+          <div ref={videoContainerRef} className="h-full relative">
+            <NekoVideo 
+              neko={neko} 
+              className="absolute inset-0"
+            />
+            
+            {/* Volume and Fullscreen */}
+            <div className="absolute bottom-4 right-4 flex items-center gap-2 opacity-70 hover:opacity-100">
+              {isFullscreen && keyboardLocked && !showKeyboardHint && (
+                <div
+                  className="p-2 bg-secondary rounded-md"
+                  title="Keyboard captured. Hold Esc to exit full screen"
+                >
+                  <Lock className="w-4 h-4 text-secondary-foreground" />
+                </div>
+              )}
+              <NekoVolume neko={neko} />
+              {neko.state.connected && (
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="secondary"
+                      size="icon"
+                      className="relative"
+                      title={fetching.length > 0
+                        ? `Downloads (saving ${fetching.length} ${fetching.length === 1 ? 'file' : 'files'}${fetchingPercent !== null ? `, ${fetchingPercent}%` : ''})`
+                        : 'Downloads'}
+                    >
+                      <Download className={`w-4 h-4 ${fetching.length > 0 ? 'animate-pulse' : ''}`} />
+                      {fetching.length > 0 && (
+                        <span className="absolute -top-1.5 -right-1.5 min-w-5 h-5 px-1 flex items-center justify-center rounded-full bg-primary text-primary-foreground text-xs font-medium pointer-events-none">
+                          {fetchingPercent !== null ? `${fetchingPercent}%` : '…'}
+                        </span>
+                      )}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent align="end" className="w-80">
+                    <NekoDownloads neko={neko} />
+                  </PopoverContent>
+                </Popover>
+              )}
+              {neko.state.connected && (
+                <div className="relative">
+                  <Button
+                    variant={chatOpen ? 'default' : 'secondary'}
+                    size="icon"
+                    title="Chat"
+                    onClick={() => setChatOpen(!chatOpen)}
+                  >
+                    <MessageSquare className="w-4 h-4" />
+                  </Button>
+                  {unreadChat > 0 && (
+                    <span className="absolute -top-1.5 -right-1.5 min-w-5 h-5 px-1 flex items-center justify-center rounded-full bg-destructive text-destructive-foreground text-xs font-medium pointer-events-none">
+                      {unreadChat > 99 ? '99+' : unreadChat}
+                    </span>
+                  )}
+                </div>
+              )}
+              {neko.state.controlling && (
+                <>
+                  <Button
+                    variant="secondary"
+                    size="icon"
+                    title="Upload files to the remote browser"
+                    onClick={() => fileInputRef.current?.click()}
+                  >
+                    <Upload className="w-4 h-4" />
+                  </Button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      Array.from(e.target.files ?? []).forEach(file => neko.uploadFile(file));
+                      e.target.value = '';
+                    }}
+                  />
+                </>
+              )}
+              {neko.state.controlling && (
+                <Button
+                  variant={keyboardOpen ? 'default' : 'secondary'}
+                  size="icon"
+                  title="On-screen keyboard"
+                  onClick={() => setKeyboardOpen(!keyboardOpen)}
+                >
+                  <Keyboard className="w-4 h-4" />
+                </Button>
+              )}
+              <Button
+                variant={neko.state.statsEnabled ? 'default' : 'secondary'}
+                size="icon"
+                title="Connection stats"
+                onClick={() => neko.setStatsEnabled(!neko.state.statsEnabled)}
+              >
+                <Activity className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="secondary"
+                size="icon"
+                onClick={toggleFullscreen}
+              >
+                {isFullscreen ? (
+                  <Minimize2 className="w-4 h-4" />
+                ) : (
+                  <Maximize2 className="w-4 h-4" />
+                )}
+              </Button>
+            </div>
+            
+            {/* Keyboard lock indicator */}
+            {isFullscreen && keyboardLocked !== null && showKeyboardHint && (
+              <div className="absolute top-14 left-1/2 -translate-x-1/2 flex items-center gap-2 px-3 py-1 bg-card/90 border border-border rounded-full shadow-lg pointer-events-none">
+                <Lock className="w-3 h-3 text-card-foreground" />
+                <span className="text-sm text-card-foreground">
+                  {keyboardLocked
+                    ? 'Shortcuts go to the remote. Hold Esc to exit full screen'
+                    : 'Your browser keeps some shortcuts. Press Esc to exit full screen'}
+                </span>
+              </div>
+            )}
+            
+            {/* Floating on-screen keyboard */}
+            {neko.state.controlling && keyboardOpen && !keyboardDocked && (
+              <NekoVirtualKeyboard
+                neko={neko}
+                docked={false}
+                onDockedChange={setKeyboardDocked}
+                onClose={() => setKeyboardOpen(false)}
+                className="absolute bottom-20 inset-x-4 mx-auto max-w-3xl"
+              />
+            )}
+            
+            {/* Connection stats */}
+            {neko.state.connected && neko.state.statsEnabled && (
+              <NekoStatsOverlay neko={neko} className="absolute bottom-16 right-4" />
+            )}
+            
+            {/* Autoplay policy kept the sound off */}
+            {neko.state.connected && neko.state.autoplayBlocked && (
+              <Button
+                variant="secondary"
+                className="absolute bottom-4 left-1/2 -translate-x-1/2 shadow-lg"
+                onClick={() => neko.unlockAudio()}
+              >
+                <VolumeX className="w-4 h-4 mr-2" />
+                Click to enable sound
+              </Button>
+            )}
+            
+            {/* Files on their way to the remote */}
+            <NekoUploads neko={neko} className="absolute top-14 right-4 w-72" />
+            
+            {/* Pending handoff requests */}
+            <NekoControlRequests
+              neko={neko}
+              className="absolute top-4 left-4 max-w-md"
+            />
+            
+            {/* Control indicator */}
+            {neko.state.controlling && (
+              <div className="absolute top-4 right-4 px-3 py-1 bg-primary/90 text-primary-foreground text-sm rounded-full">
+                {neko.state.releaseHotkey
+                  ? `Press ${formatChord(neko.state.releaseHotkey)} to release control`
+                  : 'In control'}
+              </div>
+            )}
           </div>
+        </ResizablePanel>
+        
+        {chatOpen && (
+          <>
+            <ResizableHandle withHandle />
+            <ResizablePanel id="chat" order={2} defaultSize={25} minSize={15} maxSize={50}>
+              <NekoChat neko={neko} onClose={() => setChatOpen(false)} className="h-full" />
+            </ResizablePanel>
+          </>
         )}
-      </div>
+      </ResizablePanelGroup>
+      
+      {/* Docked on-screen keyboard */}
+      {neko.state.controlling && keyboardOpen && keyboardDocked && (
+        <div className="p-2 border-t border-border">
+          <NekoVirtualKeyboard
+            neko={neko}
+            docked
+            onDockedChange={setKeyboardDocked}
+            onClose={() => setKeyboardOpen(false)}
+            className="mx-auto max-w-3xl"
+          />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,90 @@
+// Neko Chat Component - Session chat with join, leave and control messages
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Send, X } from 'lucide-react';
+import type { UseNekoReturn } from '@/hooks/use-neko';
+import { CHAT_MAX_LENGTH } from '@/lib/neko/client';
+import { getMemberColor } from '@/lib/neko/presence';
+
+interface NekoChatProps {
+  neko: UseNekoReturn;
+  onClose: () => void;
+  className?: string;
+}
+
+function formatTime(time: number): string {
+  return new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+export function NekoChat({ neko, onClose, className = '' }: NekoChatProps) {
+  const [draft, setDraft] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+  const { chat, connected, members, memberId } = neko.state;
+  const muted = members.find(m => m.id === memberId)?.muted ?? false;
+
+  // Keep the latest message in view
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'end' });
+  }, [chat]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!draft.trim()) return;
+    neko.sendChatMessage(draft);
+    setDraft('');
+  };
+
+  return (
+    <div className={`flex flex-col bg-card ${className}`}>
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+        <span className="text-sm font-medium text-card-foreground">Chat</span>
+        <Button variant="ghost" size="icon" className="h-7 w-7" title="Close chat" onClick={onClose}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto px-3 py-2 space-y-2">
+        {chat.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-4">No messages yet</p>
+        )}
+        {chat.map(entry => (
+          entry.kind === 'system' ? (
+            <p key={entry.id} className="text-xs text-muted-foreground text-center">
+              {entry.content} · {formatTime(entry.time)}
+            </p>
+          ) : (
+            <div key={entry.id} className="text-sm">
+              <div className="flex items-baseline gap-2">
+                <span
+                  className="font-medium truncate"
+                  style={{ color: entry.memberId ? getMemberColor(entry.memberId) : undefined }}
+                >
+                  {entry.self ? 'You' : entry.displayName}
+                </span>
+                <span className="text-xs text-muted-foreground">{formatTime(entry.time)}</span>
+              </div>
+              <p className="text-card-foreground whitespace-pre-wrap break-words">{entry.content}</p>
+            </div>
+          )
+        ))}
+        <div ref={endRef} />
+      </div>
+
+      <form className="flex gap-2 p-2 border-t border-border" onSubmit={handleSubmit}>
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={muted ? 'You have been muted' : 'Send a message'}
+          maxLength={CHAT_MAX_LENGTH}
+          disabled={!connected || muted}
+          className="h-8 text-sm"
+        />
+        <Button type="submit" size="icon" className="h-8 w-8 shrink-0" title="Send" disabled={!connected || muted || !draft.trim()}>
+          <Send className="w-4 h-4" />
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+// Neko Clipboard Component - Manual clipboard exchange for browsers that block the Clipboard API
+
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Copy, Send } from 'lucide-react';
+import type { UseNekoReturn } from '@/hooks/use-neko';
+
+interface NekoClipboardProps {
+  neko: UseNekoReturn;
+}
+
+export function NekoClipboard({ neko }: NekoClipboardProps) {
+  const [draft, setDraft] = useState(neko.state.clipboard);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Follow remote clipboard updates
+  useEffect(() => {
+    setDraft(neko.state.clipboard);
+  }, [neko.state.clipboard]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(draft);
+    } catch {
+      // Clipboard API blocked: select the text so it can be copied by hand
+      textareaRef.current?.select();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="neko-clipboard">Remote clipboard</Label>
+      <Textarea
+        id="neko-clipboard"
+        ref={textareaRef}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        placeholder="Copy something in the remote browser, or type here to send it"
+        rows={4}
+      />
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1" onClick={handleCopy} disabled={!draft}>
+          <Copy className="w-4 h-4 mr-1" />
+          Copy
+        </Button>
+        <Button
+          size="sm"
+          className="flex-1"
+          onClick={() => neko.sendClipboard(draft)}
+          disabled={!neko.state.controlling || draft === neko.state.clipboard}
+        >
+          <Send className="w-4 h-4 mr-1" />
+          Send to remote
+        </Button>
+      </div>
+      {!neko.state.controlling && (
+        <p className="text-xs text-muted-foreground">Take control to send text to the remote browser</p>
+      )}
+    </div>
+  );
+}
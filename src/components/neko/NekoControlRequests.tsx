@@ -0,0 +1,44 @@
+// Neko Control Requests Component - Lets the controller accept or deny handoff requests
+
+import { Button } from '@/components/ui/button';
+import { Hand } from 'lucide-react';
+import type { UseNekoReturn } from '@/hooks/use-neko';
+
+interface NekoControlRequestsProps {
+  neko: UseNekoReturn;
+  className?: string;
+}
+
+export function NekoControlRequests({ neko, className = '' }: NekoControlRequestsProps) {
+  const { controlling, controlRequests, members } = neko.state;
+
+  if (!controlling || controlRequests.length === 0) return null;
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      {controlRequests.map((id) => {
+        const member = members.find(m => m.id === id);
+
+        return (
+          <div
+            key={id}
+            className="flex items-center gap-3 px-4 py-2 bg-card border border-border rounded-lg shadow-lg"
+          >
+            <Hand className="w-4 h-4 text-primary shrink-0" />
+            <p className="text-sm text-card-foreground">
+              <span className="font-medium">{member?.displayName ?? 'Someone'}</span> is requesting control
+            </p>
+            <div className="flex gap-2 ml-auto">
+              <Button size="sm" onClick={() => neko.acceptControlRequest(id)}>
+                Accept
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => neko.denyControlRequest(id)}>
+                Deny
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
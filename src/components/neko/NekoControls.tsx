@@ -6,8 +6,17 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Wifi, WifiOff, Monitor, MonitorOff, Settings, X } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Wifi, WifiOff, Monitor, MonitorOff, Settings, Users, Clipboard, Crosshair, MousePointer2, Pointer, X } from 'lucide-react';
 import type { UseNekoReturn } from '@/hooks/use-neko';
+import { PHASE_LABELS } from '@/lib/neko/phase';
+import { KEYBOARD_LAYOUTS } from '@/lib/neko/layouts';
+import type { KeyboardLayout } from '@/lib/neko/types';
+import { NekoMembers } from './NekoMembers';
+import { NekoClipboard } from './NekoClipboard';
+import { NekoResolution } from './NekoResolution';
+import { NekoInputSettings } from './NekoInputSettings';
 
 interface NekoControlsProps {
   neko: UseNekoReturn;
@@ -50,12 +59,12 @@ export function NekoControls({ neko }: NekoControlsProps) {
           ) : neko.state.connecting ? (
             <Badge variant="secondary">
               <div className="w-3 h-3 mr-1 border-2 border-current border-t-transparent rounded-full animate-spin" />
-              Connecting
+              {PHASE_LABELS[neko.state.phase]}
             </Badge>
           ) : (
-            <Badge variant="outline">
+            <Badge variant={neko.state.phase === 'failed' ? 'destructive' : 'outline'}>
               <WifiOff className="w-3 h-3 mr-1" />
-              Disconnected
+              {PHASE_LABELS[neko.state.phase]}
             </Badge>
           )}
           
@@ -75,10 +84,66 @@ export function NekoControls({ neko }: NekoControlsProps) {
         </div>
         
         <div className="flex items-center gap-2">
+          {neko.state.connected && <NekoResolution neko={neko} />}
+          
+          {neko.state.connected && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="ghost" size="sm">
+                  <Users className="w-4 h-4 mr-1" />
+                  {neko.state.members.length}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end">
+                <NekoMembers neko={neko} />
+              </PopoverContent>
+            </Popover>
+          )}
+          
+          {neko.state.controlling && (
+            <Button
+              variant={neko.state.pointerLock ? 'secondary' : 'ghost'}
+              size="icon"
+              title={neko.state.pointerLock ? 'Disable pointer lock' : 'Enable pointer lock (relative mouse for games and 3D apps)'}
+              onClick={() => neko.setPointerLock(!neko.state.pointerLock)}
+            >
+              <Crosshair className="w-4 h-4" />
+            </Button>
+          )}
+          
           {neko.state.connected && (
-            <span className="text-sm text-muted-foreground">
-              {neko.state.videoWidth}x{neko.state.videoHeight}
-            </span>
+            <Button
+              variant={neko.state.laserPointer ? 'secondary' : 'ghost'}
+              size="icon"
+              title={neko.state.laserPointer ? 'Stop using the laser pointer' : 'Laser pointer (point things out to everyone without taking control)'}
+              onClick={() => neko.setLaserPointer(!neko.state.laserPointer)}
+            >
+              <Pointer className="w-4 h-4" />
+            </Button>
+          )}
+          
+          {neko.state.controlling && neko.state.cursorPosition !== null && (
+            <Button
+              variant={neko.state.cursorPrediction ? 'secondary' : 'ghost'}
+              size="icon"
+              title={neko.state.cursorPrediction ? 'Disable local cursor prediction' : 'Enable local cursor prediction (draw the cursor before the server confirms it)'}
+              onClick={() => neko.setCursorPrediction(!neko.state.cursorPrediction)}
+            >
+              <MousePointer2 className="w-4 h-4" />
+            </Button>
+          )}
+          
+          {neko.state.connected && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="ghost" size="icon" title="Clipboard">
+                  <Clipboard className="w-4 h-4" />
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="end" className="w-80">
+                <NekoClipboard neko={neko} />
+              </PopoverContent>
+            </Popover>
           )}
           
           <Button
@@ -147,6 +212,32 @@ export function NekoControls({ neko }: NekoControlsProps) {
               />
             </div>
             
+            <div className="space-y-2">
+              <Label htmlFor="keyboard-layout">Keyboard Layout</Label>
+              <Select
+                value={neko.state.keyboardLayout}
+                onValueChange={(value) => neko.setKeyboardLayout(value as KeyboardLayout)}
+              >
+                <SelectTrigger id="keyboard-layout">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">
+                    Auto-detect
+                    {neko.state.detectedLayout && ` (${KEYBOARD_LAYOUTS[neko.state.detectedLayout].label})`}
+                  </SelectItem>
+                  {Object.entries(KEYBOARD_LAYOUTS).map(([id, { label }]) => (
+                    <SelectItem key={id} value={id}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Used for keys your browser cannot identify. Typed characters, dead keys and IME input follow your system layout.
+              </p>
+            </div>
+            
+            <NekoInputSettings neko={neko} />
+            
             <div className="flex gap-2">
               {!neko.state.connected ? (
                 <Button 
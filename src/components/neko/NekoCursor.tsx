@@ -0,0 +1,67 @@
+// Neko Cursor Component - Remote pointer drawn over the video, with local prediction
+
+import { useEffect, useState } from 'react';
+import type { CursorImage } from '@/lib/neko/types';
+import type { Point, ViewportMapping } from '@/lib/neko/viewport';
+
+interface NekoCursorProps {
+  image: CursorImage | null;
+  // Last position reported by the server, in remote pixels
+  position: Point | null;
+  // Where the local pointer put the cursor, and when (performance.now())
+  predicted: { point: Point; at: number } | null;
+  mapping: ViewportMapping;
+  remoteWidth: number;
+}
+
+// Server positions arriving this soon after a local move are taken as the
+// echo of that move; later ones mean the remote moved the pointer itself
+const RECONCILE_DELAY = 500;
+
+// Plain arrow for servers that report a position but no image
+function DefaultArrow() {
+  return (
+    <svg width={14} height={20} viewBox="0 0 14 20" className="-ml-px -mt-px drop-shadow">
+      <path d="M1 1 L1 16 L4.8 12.4 L7.6 18.6 L10 17.6 L7.3 11.5 L12.5 11.5 Z" fill="black" stroke="white" strokeWidth="1.2" />
+    </svg>
+  );
+}
+
+export function NekoCursor({ image, position, predicted, mapping, remoteWidth }: NekoCursorProps) {
+  const [positionAt, setPositionAt] = useState(0);
+
+  useEffect(() => {
+    if (position) {
+      setPositionAt(performance.now());
+    }
+  }, [position]);
+
+  const usePredicted = predicted && (!position || predicted.at > positionAt - RECONCILE_DELAY);
+  const point = usePredicted ? predicted.point : position;
+  if (!point) return null;
+
+  // Cursor images are in remote pixels and scale with the frame
+  const scale = remoteWidth > 0 ? mapping.frame.width / remoteWidth : 1;
+  const local = mapping.toLocal(point);
+
+  return (
+    <div
+      className="absolute pointer-events-none select-none"
+      style={{
+        left: local.x - (image ? image.x * scale : 0),
+        top: local.y - (image ? image.y * scale : 0),
+      }}
+    >
+      {image ? (
+        <img
+          src={image.uri}
+          alt=""
+          draggable={false}
+          style={{ width: image.width * scale, height: image.height * scale }}
+        />
+      ) : (
+        <DefaultArrow />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+// Neko Downloads Component - Files the remote browser downloaded, fetched to this machine
+
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { toast } from '@/hooks/use-toast';
+import { Download, Trash2 } from 'lucide-react';
+import type { UseNekoReturn } from '@/hooks/use-neko';
+import type { RemoteDownload } from '@/lib/neko/types';
+import { formatBytes } from '@/lib/neko/upload';
+
+interface NekoDownloadsProps {
+  neko: UseNekoReturn;
+}
+
+function saveBlob(blob: Blob, name: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  // Give the browser a moment to start saving before the data goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function NekoDownloads({ neko }: NekoDownloadsProps) {
+  const { downloads, downloadProgress, controlling, members, memberId } = neko.state;
+  const isAdmin = members.some(m => m.id === memberId && m.admin);
+
+  const handleFetch = async (file: RemoteDownload) => {
+    try {
+      const blob = await neko.fetchDownload(file.id);
+      saveBlob(blob, file.name);
+      toast({ title: 'Download complete', description: file.name });
+    } catch (error) {
+      // Ending the session stops transfers; that is not worth a toast
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      toast({
+        variant: 'destructive',
+        title: `Could not download ${file.name}`,
+        description: error instanceof Error ? error.message : 'Download failed',
+      });
+    }
+  };
+
+  if (downloads.length === 0) {
+    return <p className="text-sm text-muted-foreground">Files downloaded in the remote browser appear here</p>;
+  }
+
+  return (
+    <div className="space-y-1 max-h-80 overflow-y-auto">
+      {downloads.map(file => {
+        const progress = downloadProgress[file.id];
+
+        return (
+          <div key={file.id} className="p-2 rounded-md hover:bg-muted">
+            <div className="flex items-center gap-2">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-card-foreground truncate" title={file.name}>{file.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {progress
+                    ? progress.total > 0
+                      ? `${formatBytes(progress.received)} of ${formatBytes(progress.total)}`
+                      : formatBytes(progress.received)
+                    : `${formatBytes(file.size)} · ${new Date(file.modified).toLocaleString()}`}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                title="Save to this computer"
+                disabled={!!progress}
+                onClick={() => handleFetch(file)}
+              >
+                <Download className="w-4 h-4" />
+              </Button>
+              {(controlling || isAdmin) && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  title="Delete from the server"
+                  onClick={() => neko.deleteDownload(file.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+            {progress && (
+              <Progress
+                value={progress.total > 0 ? (progress.received / progress.total) * 100 : 0}
+                className="h-1.5 mt-1"
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+// Neko Input Settings Component - Release-control hotkey and key remapping profiles
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowRight, Plus, Trash2 } from 'lucide-react';
+import type { UseNekoReturn } from '@/hooks/use-neko';
+import type { KeyRemapProfile } from '@/lib/neko/types';
+import { DEFAULT_RELEASE_HOTKEY, chordFromEvent, formatChord, formatKeyCode } from '@/lib/neko/hotkeys';
+
+interface NekoInputSettingsProps {
+  neko: UseNekoReturn;
+}
+
+const NO_PROFILE = 'none';
+
+// Read-only input that records the next key pressed in it; being an input,
+// the key is not forwarded to the remote
+function KeyCaptureInput({ value, placeholder, onCapture, id }: {
+  value: string;
+  placeholder: string;
+  onCapture: (event: React.KeyboardEvent<HTMLInputElement>) => void;
+  id?: string;
+}) {
+  return (
+    <Input
+      id={id}
+      readOnly
+      value={value}
+      placeholder={placeholder}
+      className="h-8 text-sm cursor-pointer"
+      onKeyDown={(event) => {
+        event.preventDefault();
+        onCapture(event);
+      }}
+    />
+  );
+}
+
+export function NekoInputSettings({ neko }: NekoInputSettingsProps) {
+  const { releaseHotkey, remapProfiles, remapProfileId } = neko.state;
+  const active = remapProfiles.find(profile => profile.id === remapProfileId) ?? null;
+
+  const updateProfile = (profile: KeyRemapProfile) => {
+    neko.setRemapProfiles(remapProfiles.map(p => (p.id === profile.id ? profile : p)), profile.id);
+  };
+
+  const createProfile = () => {
+    const profile: KeyRemapProfile = {
+      id: `custom-${Date.now()}`,
+      name: `Custom ${remapProfiles.filter(p => !p.builtin).length + 1}`,
+      mappings: {},
+    };
+    neko.setRemapProfiles([...remapProfiles, profile], profile.id);
+  };
+
+  const deleteProfile = (id: string) => {
+    neko.setRemapProfiles(remapProfiles.filter(p => p.id !== id), null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="release-hotkey">Release Control Hotkey</Label>
+        <div className="flex gap-2">
+          <KeyCaptureInput
+            id="release-hotkey"
+            value={releaseHotkey ? formatChord(releaseHotkey) : ''}
+            placeholder="Disabled"
+            onCapture={(event) => {
+              const chord = chordFromEvent(event);
+              if (chord) {
+                neko.setReleaseHotkey(chord);
+                event.currentTarget.blur();
+              }
+            }}
+          />
+          <Button variant="outline" size="sm" onClick={() => neko.setReleaseHotkey(DEFAULT_RELEASE_HOTKEY)}>
+            Reset
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => neko.setReleaseHotkey(null)}>
+            Disable
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Click the field and press a key combination. It releases control instead of reaching the remote.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="remap-profile">Key Remapping</Label>
+        <div className="flex gap-2">
+          <Select
+            value={remapProfileId ?? NO_PROFILE}
+            onValueChange={(value) => neko.setRemapProfiles(remapProfiles, value === NO_PROFILE ? null : value)}
+          >
+            <SelectTrigger id="remap-profile" className="h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_PROFILE}>None</SelectItem>
+              {remapProfiles.map(profile => (
+                <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="icon" className="h-8 w-8 shrink-0" title="New profile" onClick={createProfile}>
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {active && !active.builtin && (
+          <div className="space-y-2 p-3 border border-border rounded-md">
+            <div className="flex gap-2">
+              <Input
+                value={active.name}
+                className="h-8 text-sm"
+                onChange={(e) => updateProfile({ ...active, name: e.target.value })}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                title="Delete profile"
+                onClick={() => deleteProfile(active.id)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+
+            {Object.entries(active.mappings).map(([from, to]) => (
+              <div key={from} className="flex items-center gap-2 text-sm">
+                <span className="flex-1">{formatKeyCode(from)}</span>
+                <ArrowRight className="w-3 h-3 text-muted-foreground" />
+                <KeyCaptureInput
+                  value={formatKeyCode(to)}
+                  placeholder="Press a key"
+                  onCapture={(event) => updateProfile({
+                    ...active,
+                    mappings: { ...active.mappings, [from]: event.code },
+                  })}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  title="Remove mapping"
+                  onClick={() => {
+                    const { [from]: _removed, ...mappings } = active.mappings;
+                    updateProfile({ ...active, mappings });
+                  }}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+
+            <KeyCaptureInput
+              value=""
+              placeholder="Press a key to remap it"
+              onCapture={(event) => {
+                if (!event.code || active.mappings[event.code]) return;
+                updateProfile({ ...active, mappings: { ...active.mappings, [event.code]: event.code } });
+              }}
+            />
+          </div>
+        )}
+
+        {active?.builtin && (
+          <p className="text-xs text-muted-foreground">
+            {Object.entries(active.mappings).map(([from, to]) => `${formatKeyCode(from)} → ${formatKeyCode(to)}`).join(', ')}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+// Neko Members Component - Room roster with admin and control indicators
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { MicOff, Monitor, Shield } from 'lucide-react';
+import type { UseNekoReturn } from '@/hooks/use-neko';
+
+interface NekoMembersProps {
+  neko: UseNekoReturn;
+}
+
+export function NekoMembers({ neko }: NekoMembersProps) {
+  const { members, memberId, controllerId, controlling } = neko.state;
+
+  if (members.length === 0) {
+    return <p className="text-sm text-muted-foreground">No one else is here yet</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {members.map((member) => (
+        <li key={member.id} className="flex items-center justify-between gap-2">
+          <span className="text-sm text-foreground truncate">
+            {member.displayName}
+            {member.id === memberId && (
+              <span className="text-muted-foreground"> (you)</span>
+            )}
+          </span>
+
+          <div className="flex items-center gap-1 shrink-0">
+            {member.muted && (
+              <Badge variant="outline">
+                <MicOff className="w-3 h-3 mr-1" />
+                Muted
+              </Badge>
+            )}
+            {member.admin && (
+              <Badge variant="secondary">
+                <Shield className="w-3 h-3 mr-1" />
+                Admin
+              </Badge>
+            )}
+            {member.id === controllerId && (
+              <Badge variant="default">
+                <Monitor className="w-3 h-3 mr-1" />
+                In Control
+              </Badge>
+            )}
+            {controlling && member.id !== memberId && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="h-6 px-2 text-xs"
+                onClick={() => neko.giveControl(member.id)}
+              >
+                Give control
+              </Button>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
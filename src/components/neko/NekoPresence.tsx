@@ -0,0 +1,54 @@
+// Neko Presence Component - Other members' pointers and laser pointers over the video
+
+import type { UseNekoReturn } from '@/hooks/use-neko';
+import type { ViewportMapping } from '@/lib/neko/viewport';
+import { getMemberColor } from '@/lib/neko/presence';
+
+interface NekoPresenceProps {
+  neko: UseNekoReturn;
+  mapping: ViewportMapping;
+}
+
+export function NekoPresence({ neko, mapping }: NekoPresenceProps) {
+  const { pointers, members } = neko.state;
+
+  return (
+    <>
+      {Object.entries(pointers).map(([id, pointer]) => {
+        const member = members.find(m => m.id === id);
+        if (!member) return null;
+
+        const color = getMemberColor(id);
+        const local = mapping.toLocal(pointer);
+
+        return (
+          <div
+            key={id}
+            className="absolute pointer-events-none select-none transition-[left,top] duration-75 ease-linear"
+            style={{ left: local.x, top: local.y }}
+          >
+            {pointer.laser ? (
+              <div className="relative -ml-2 -mt-2 w-4 h-4">
+                <div className="absolute inset-0 rounded-full animate-ping opacity-60" style={{ backgroundColor: color }} />
+                <div
+                  className="absolute inset-0 rounded-full border-2 border-white"
+                  style={{ backgroundColor: color, boxShadow: `0 0 12px 4px ${color}` }}
+                />
+              </div>
+            ) : (
+              <svg width={14} height={20} viewBox="0 0 14 20" className="-ml-px -mt-px drop-shadow">
+                <path d="M1 1 L1 16 L4.8 12.4 L7.6 18.6 L10 17.6 L7.3 11.5 L12.5 11.5 Z" fill={color} stroke="white" strokeWidth="1.2" />
+              </svg>
+            )}
+            <span
+              className="absolute left-3 top-4 px-1.5 py-0.5 rounded text-xs font-medium text-white whitespace-nowrap shadow"
+              style={{ backgroundColor: color }}
+            >
+              {member.displayName}
+            </span>
+          </div>
+        );
+      })}
+    </>
+  );
+}
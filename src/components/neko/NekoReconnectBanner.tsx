@@ -0,0 +1,45 @@
+// Neko Reconnect Banner Component - Countdown to the next reconnect attempt
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import type { UseNekoReturn } from '@/hooks/use-neko';
+
+interface NekoReconnectBannerProps {
+  neko: UseNekoReturn;
+}
+
+export function NekoReconnectBanner({ neko }: NekoReconnectBannerProps) {
+  const { reconnectAttempt, nextRetryAt } = neko.state;
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick while a retry is scheduled
+  useEffect(() => {
+    if (!nextRetryAt) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [nextRetryAt]);
+
+  const seconds = nextRetryAt ? Math.max(0, Math.ceil((nextRetryAt - now) / 1000)) : 0;
+
+  return (
+    <div className="bg-card px-6 py-4 rounded-lg shadow-lg text-center space-y-3">
+      <div>
+        <p className="text-card-foreground font-medium">
+          {nextRetryAt ? `Reconnecting in ${seconds}s` : 'Reconnecting...'}
+        </p>
+        <p className="text-muted-foreground text-sm mt-1">Attempt {reconnectAttempt}</p>
+      </div>
+      <div className="flex justify-center gap-2">
+        {nextRetryAt && (
+          <Button size="sm" onClick={() => neko.retryNow()}>
+            Retry now
+          </Button>
+        )}
+        <Button size="sm" variant="outline" onClick={() => neko.cancelReconnect()}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+// Neko Resolution Component - Shows the remote screen mode and lets the controller change it
+
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Scaling } from 'lucide-react';
+import type { UseNekoReturn } from '@/hooks/use-neko';
+
+interface NekoResolutionProps {
+  neko: UseNekoReturn;
+}
+
+function formatMode(width: number, height: number, rate: number): string {
+  return `${width}x${height}@${rate}`;
+}
+
+export function NekoResolution({ neko }: NekoResolutionProps) {
+  const { videoWidth, videoHeight, videoRate, screenConfigurations, controlling, members, memberId } = neko.state;
+  const isAdmin = members.some(m => m.id === memberId && m.admin);
+  const current = formatMode(videoWidth, videoHeight, videoRate);
+
+  if (!controlling && !isAdmin) {
+    return (
+      <span className="text-sm text-muted-foreground">
+        {videoWidth}x{videoHeight} @ {videoRate}Hz
+      </span>
+    );
+  }
+
+  const handleChange = (value: string) => {
+    const [size, rate] = value.split('@');
+    const [width, height] = size.split('x').map(Number);
+    neko.setScreenResolution(width, height, Number(rate));
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select
+        value={current}
+        disabled={neko.state.matchWindow && controlling}
+        onValueChange={handleChange}
+        onOpenChange={(open) => {
+          if (open && screenConfigurations.length === 0) {
+            neko.requestScreenConfigurations();
+          }
+        }}
+      >
+        <SelectTrigger className="h-8 w-40 text-sm">
+          <SelectValue placeholder={`${videoWidth}x${videoHeight} @ ${videoRate}Hz`} />
+        </SelectTrigger>
+        <SelectContent>
+          {screenConfigurations.flatMap(({ width, height, rates }) =>
+            rates.map((rate) => (
+              <SelectItem key={formatMode(width, height, rate)} value={formatMode(width, height, rate)}>
+                {width}x{height} @ {rate}Hz
+              </SelectItem>
+            ))
+          )}
+        </SelectContent>
+      </Select>
+      {controlling && (
+        <Button
+          variant={neko.state.matchWindow ? 'secondary' : 'ghost'}
+          size="icon"
+          className="h-8 w-8"
+          title={neko.state.matchWindow ? 'Stop matching my window' : 'Match my window'}
+          onClick={() => neko.setMatchWindow(!neko.state.matchWindow)}
+        >
+          <Scaling className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+// Neko Stats Overlay Component - Live WebRTC quality metrics with sparkline history
+
+import { Line, LineChart, YAxis } from 'recharts';
+import { ChartContainer, type ChartConfig } from '@/components/ui/chart';
+import type { UseNekoReturn } from '@/hooks/use-neko';
+import type { NekoStats } from '@/lib/neko/types';
+
+interface NekoStatsOverlayProps {
+  neko: UseNekoReturn;
+  className?: string;
+}
+
+type Metric = {
+  key: 'bitrate' | 'fps' | 'framesDropped' | 'decodeTime' | 'jitter' | 'packetLoss' | 'rtt';
+  label: string;
+  format: (value: number) => string;
+};
+
+const METRICS: Metric[] = [
+  { key: 'bitrate', label: 'Bitrate', format: (v) => (v >= 1000 ? `${(v / 1000).toFixed(1)} Mbps` : `${Math.round(v)} kbps`) },
+  { key: 'fps', label: 'FPS', format: (v) => v.toFixed(0) },
+  { key: 'framesDropped', label: 'Dropped', format: (v) => v.toFixed(0) },
+  { key: 'decodeTime', label: 'Decode', format: (v) => `${v.toFixed(1)} ms` },
+  { key: 'jitter', label: 'Jitter', format: (v) => `${v.toFixed(1)} ms` },
+  { key: 'packetLoss', label: 'Loss', format: (v) => `${v.toFixed(1)}%` },
+  { key: 'rtt', label: 'RTT', format: (v) => `${Math.round(v)} ms` },
+];
+
+const chartConfig = {
+  value: { label: 'Value', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+function Sparkline({ history, metric }: { history: NekoStats[]; metric: Metric['key'] }) {
+  const data = history.map(sample => ({ value: sample[metric] ?? 0 }));
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-6 w-24">
+      <LineChart data={data} margin={{ top: 2, right: 0, bottom: 2, left: 0 }}>
+        <YAxis hide domain={[0, 'auto']} />
+        <Line
+          dataKey="value"
+          type="monotone"
+          stroke="var(--color-value)"
+          strokeWidth={1.5}
+          dot={false}
+          isAnimationActive={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+}
+
+export function NekoStatsOverlay({ neko, className = '' }: NekoStatsOverlayProps) {
+  const { stats, statsHistory } = neko.state;
+
+  return (
+    <div className={`px-3 py-2 bg-card/90 border border-border rounded-lg shadow-lg text-xs ${className}`}>
+      {!stats ? (
+        <p className="text-muted-foreground">Collecting stats...</p>
+      ) : (
+        <table>
+          <tbody>
+            {METRICS.map((metric) => {
+              const value = stats[metric.key];
+
+              return (
+                <tr key={metric.key}>
+                  <td className="pr-3 text-muted-foreground">{metric.label}</td>
+                  <td className="pr-3 text-right font-mono text-card-foreground">
+                    {value === null ? '-' : metric.format(value)}
+                  </td>
+                  <td>
+                    <Sparkline history={statsHistory} metric={metric.key} />
+                  </td>
+                </tr>
+              );
+            })}
+            <tr>
+              <td className="pr-3 text-muted-foreground">Path</td>
+              <td colSpan={2} className="font-mono text-card-foreground">
+                {stats.localCandidateType ?? '?'} / {stats.remoteCandidateType ?? '?'}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
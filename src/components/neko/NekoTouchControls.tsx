@@ -0,0 +1,46 @@
+// Neko Touch Controls Component - Trackpad mode and soft keyboard for touch devices
+
+import { Button } from '@/components/ui/button';
+import { Keyboard, MousePointer2, Pointer } from 'lucide-react';
+
+interface NekoTouchControlsProps {
+  trackpad: boolean;
+  onTrackpadChange: (trackpad: boolean) => void;
+  onShowKeyboard: () => void;
+  className?: string;
+}
+
+// Touches on the toolbar must not become clicks on the remote
+const stopPropagation = (event: React.SyntheticEvent) => event.stopPropagation();
+
+export function NekoTouchControls({ trackpad, onTrackpadChange, onShowKeyboard, className = '' }: NekoTouchControlsProps) {
+  return (
+    <div
+      className={`flex items-center gap-1 p-1 bg-card/90 border border-border rounded-lg shadow-lg cursor-default ${className}`}
+      onMouseDown={stopPropagation}
+      onMouseUp={stopPropagation}
+      onTouchStart={stopPropagation}
+      onTouchMove={stopPropagation}
+      onTouchEnd={stopPropagation}
+    >
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-9 w-9"
+        title={trackpad ? 'Touch where to click' : 'Use as trackpad'}
+        onClick={() => onTrackpadChange(!trackpad)}
+      >
+        {trackpad ? <MousePointer2 className="w-4 h-4" /> : <Pointer className="w-4 h-4" />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-9 w-9"
+        title="Show keyboard"
+        onClick={onShowKeyboard}
+      >
+        <Keyboard className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+// Neko Uploads Component - Progress of files sent to the remote browser
+
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { CheckCircle2, FileUp, X, XCircle } from 'lucide-react';
+import type { UseNekoReturn } from '@/hooks/use-neko';
+import { formatBytes } from '@/lib/neko/upload';
+
+interface NekoUploadsProps {
+  neko: UseNekoReturn;
+  className?: string;
+}
+
+export function NekoUploads({ neko, className = '' }: NekoUploadsProps) {
+  const { uploads } = neko.state;
+  if (uploads.length === 0) return null;
+
+  return (
+    <div className={`p-2 space-y-2 bg-card/95 border border-border rounded-lg shadow-lg ${className}`}>
+      {uploads.map(upload => (
+        <div key={upload.id} className="space-y-1">
+          <div className="flex items-center gap-2 text-sm">
+            {upload.status === 'done' ? (
+              <CheckCircle2 className="w-4 h-4 shrink-0 text-primary" />
+            ) : upload.status === 'uploading' ? (
+              <FileUp className="w-4 h-4 shrink-0 text-muted-foreground" />
+            ) : (
+              <XCircle className="w-4 h-4 shrink-0 text-destructive" />
+            )}
+            <span className="flex-1 truncate text-card-foreground" title={upload.path ?? upload.name}>
+              {upload.name}
+            </span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6 shrink-0"
+              title={upload.status === 'uploading' ? 'Cancel upload' : 'Dismiss'}
+              onClick={() => (upload.status === 'uploading' ? neko.cancelUpload(upload.id) : neko.dismissUpload(upload.id))}
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+
+          {upload.status === 'uploading' && (
+            <>
+              <Progress value={upload.size > 0 ? (upload.received / upload.size) * 100 : 0} className="h-1.5" />
+              <p className="text-xs text-muted-foreground">
+                {formatBytes(upload.received)} of {formatBytes(upload.size)}
+              </p>
+            </>
+          )}
+          {upload.status === 'done' && (
+            <p className="text-xs text-muted-foreground truncate">Saved to {upload.path}</p>
+          )}
+          {upload.status === 'error' && (
+            <p className="text-xs text-destructive">{upload.error}</p>
+          )}
+          {upload.status === 'cancelled' && (
+            <p className="text-xs text-muted-foreground">Cancelled</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,16 +1,59 @@
 // Neko Video Component - Handles video display and input events
 
-import { useRef, useEffect, useCallback } from 'react';
+import { useRef, useEffect, useCallback, useMemo, useState } from 'react';
 import type { UseNekoReturn } from '@/hooks/use-neko';
+import { useNekoTouch } from '@/hooks/use-neko-touch';
+import { useIsMobile } from '@/hooks/use-mobile';
+import type { Viewport } from '@/lib/neko/types';
+import { PHASE_LABELS } from '@/lib/neko/phase';
+import { KEYSYM_MAP } from '@/lib/neko/protocol';
+import {
+  DEFAULT_VIEWPORT,
+  createViewportMapping,
+  getFrameRect,
+  panViewport,
+  zoomViewport,
+  type Point,
+  type Size,
+} from '@/lib/neko/viewport';
+import { NekoReconnectBanner } from './NekoReconnectBanner';
+import { NekoViewportControls } from './NekoViewportControls';
+import { NekoTouchControls } from './NekoTouchControls';
+import { NekoCursor } from './NekoCursor';
+import { NekoPresence } from './NekoPresence';
 
 interface NekoVideoProps {
   neko: UseNekoReturn;
   className?: string;
 }
 
+// Keyboard and clipboard events aimed at our own inputs stay local
+function isEditableTarget(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  return !!element && (element.isContentEditable || element.tagName === 'INPUT' || element.tagName === 'TEXTAREA');
+}
+
 export function NekoVideo({ neko, className = '' }: NekoVideoProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // Hidden input that receives IME composition while in control
+  const imeRef = useRef<HTMLTextAreaElement>(null);
+  const [pointerLocked, setPointerLocked] = useState(false);
+  const [containerSize, setContainerSize] = useState<Size>({ width: 0, height: 0 });
+  const [pixelRatio, setPixelRatio] = useState(() => window.devicePixelRatio || 1);
+  const [viewport, setViewport] = useState<Viewport>(DEFAULT_VIEWPORT);
+  const [panning, setPanning] = useState(false);
+  const panOriginRef = useRef<Point | null>(null);
+  // Whether the other members currently see our pointer
+  const sharingPointerRef = useRef(false);
+  // Drag events fire for every child entered and left; count to know when
+  // files leave the video for good
+  const dragDepthRef = useRef(0);
+  const [droppingFiles, setDroppingFiles] = useState(false);
+  const [trackpad, setTrackpad] = useState(false);
+  const [predictedCursor, setPredictedCursor] = useState<{ point: Point; at: number } | null>(null);
+  const isMobile = useIsMobile();
+  const isTouch = isMobile || navigator.maxTouchPoints > 0;
   
   // Set video element on mount
   useEffect(() => {
@@ -19,36 +62,126 @@ export function NekoVideo({ neko, className = '' }: NekoVideoProps) {
     }
   }, [neko]);
   
-  // Calculate mouse position relative to video
-  const getMousePosition = useCallback((event: React.MouseEvent): { x: number; y: number } | null => {
-    if (!videoRef.current) return null;
-    
-    const rect = videoRef.current.getBoundingClientRect();
-    const scaleX = neko.state.videoWidth / rect.width;
-    const scaleY = neko.state.videoHeight / rect.height;
-    
-    const x = (event.clientX - rect.left) * scaleX;
-    const y = (event.clientY - rect.top) * scaleY;
+  // Track the container size so the frame can be laid out in it
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
     
-    return { x, y };
-  }, [neko.state.videoWidth, neko.state.videoHeight]);
+    const observer = new ResizeObserver(([entry]) => {
+      setContainerSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+  
+  // Browser zoom and moving to another display change the pixel ratio; the
+  // query only matches the current ratio, so it is replaced on every change
+  useEffect(() => {
+    const query = window.matchMedia(`(resolution: ${pixelRatio}dppx)`);
+    const onChange = () => setPixelRatio(window.devicePixelRatio || 1);
+    query.addEventListener('change', onChange);
+    return () => query.removeEventListener('change', onChange);
+  }, [pixelRatio]);
+  
+  const remoteSize = useMemo(
+    () => ({ width: neko.state.videoWidth, height: neko.state.videoHeight }),
+    [neko.state.videoWidth, neko.state.videoHeight]
+  );
+  
+  // One mapping between local and remote coordinates for input and overlays
+  const mapping = useMemo(
+    () => createViewportMapping(getFrameRect(containerSize, remoteSize, viewport, pixelRatio), remoteSize),
+    [containerSize, remoteSize, viewport, pixelRatio]
+  );
+  
+  const getLocalPoint = useCallback((event: { clientX: number; clientY: number }): Point | null => {
+    if (!containerRef.current) return null;
+    const rect = containerRef.current.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  }, []);
+  
+  const zoomTo = useCallback((zoom: number, anchor?: Point) => {
+    const center = { x: containerSize.width / 2, y: containerSize.height / 2 };
+    setViewport(prev => zoomViewport(containerSize, remoteSize, prev, zoom, anchor ?? center, pixelRatio));
+  }, [containerSize, remoteSize, pixelRatio]);
+  
+  const touch = useNekoTouch({
+    neko,
+    mapping,
+    trackpad,
+    zoom: viewport.zoom,
+    onZoom: zoomTo,
+    getLocalPoint,
+  });
   
   // Mouse event handlers
   const handleMouseMove = useCallback((event: React.MouseEvent) => {
-    const pos = getMousePosition(event);
+    if (pointerLocked) {
+      const delta = mapping.scaleToRemote({ x: event.movementX, y: event.movementY });
+      neko.sendMouseMoveRelative(delta.x, delta.y);
+      return;
+    }
+    
+    // Moves past the frame edge pin the cursor to it
+    const point = getLocalPoint(event);
+    const pos = point && mapping.toRemote(point, 'clamp');
     if (pos) {
       neko.sendMouseMove(pos.x, pos.y);
+      if (neko.state.cursorPrediction) {
+        setPredictedCursor({ point: pos, at: performance.now() });
+      }
+    }
+  }, [getLocalPoint, mapping, neko, pointerLocked]);
+  
+  // Every member shares where they point, in control or not
+  const handlePresenceMove = useCallback((event: React.MouseEvent) => {
+    if (neko.state.controlling) {
+      handleMouseMove(event);
+    }
+    
+    const point = pointerLocked ? null : getLocalPoint(event);
+    const pos = point && mapping.toRemote(point, 'drop');
+    if (pos) {
+      neko.sharePointer(pos.x, pos.y);
+      sharingPointerRef.current = true;
+    } else if (sharingPointerRef.current) {
+      neko.hidePointer();
+      sharingPointerRef.current = false;
     }
-  }, [getMousePosition, neko]);
+  }, [getLocalPoint, handleMouseMove, mapping, neko, pointerLocked]);
+  
+  const handleMouseLeave = useCallback(() => {
+    if (neko.state.controlling) {
+      neko.releaseButtons();
+    }
+    if (sharingPointerRef.current) {
+      neko.hidePointer();
+      sharingPointerRef.current = false;
+    }
+  }, [neko]);
   
   const handleMouseDown = useCallback((event: React.MouseEvent) => {
     event.preventDefault();
-    const pos = getMousePosition(event);
+    imeRef.current?.focus({ preventScroll: true });
+    
+    // The first click only captures the pointer
+    if (neko.state.pointerLock && !pointerLocked) {
+      containerRef.current?.requestPointerLock();
+      return;
+    }
+    if (pointerLocked) {
+      neko.sendMouseButton(event.button, true);
+      return;
+    }
+    
+    // Clicks on the letterbox bars do not reach the remote
+    const point = getLocalPoint(event);
+    const pos = point && mapping.toRemote(point, 'drop');
     if (pos) {
       neko.sendMouseMove(pos.x, pos.y);
       neko.sendMouseButton(event.button, true);
     }
-  }, [getMousePosition, neko]);
+  }, [getLocalPoint, mapping, neko, pointerLocked]);
   
   const handleMouseUp = useCallback((event: React.MouseEvent) => {
     event.preventDefault();
@@ -63,76 +196,395 @@ export function NekoVideo({ neko, className = '' }: NekoVideoProps) {
     neko.sendMouseScroll(deltaX, deltaY);
   }, [neko]);
   
+  // Files dropped on the video are uploaded for the remote browser
+  const acceptsFiles = useCallback((event: React.DragEvent) => {
+    return neko.state.controlling && event.dataTransfer.types.includes('Files');
+  }, [neko.state.controlling]);
+  
+  const handleDragEnter = useCallback((event: React.DragEvent) => {
+    if (!acceptsFiles(event)) return;
+    event.preventDefault();
+    dragDepthRef.current++;
+    setDroppingFiles(true);
+  }, [acceptsFiles]);
+  
+  const handleDragOver = useCallback((event: React.DragEvent) => {
+    if (!acceptsFiles(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+  }, [acceptsFiles]);
+  
+  const handleDragLeave = useCallback(() => {
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) {
+      setDroppingFiles(false);
+    }
+  }, []);
+  
+  const handleDrop = useCallback((event: React.DragEvent) => {
+    dragDepthRef.current = 0;
+    setDroppingFiles(false);
+    if (!acceptsFiles(event)) return;
+    event.preventDefault();
+    Array.from(event.dataTransfer.files).forEach(file => neko.uploadFile(file));
+  }, [acceptsFiles, neko]);
+  
   const handleContextMenu = useCallback((event: React.MouseEvent) => {
     event.preventDefault();
   }, []);
   
+  // Pan mode: dragging moves the frame and the wheel zooms, nothing is sent
+  const handlePanStart = useCallback((event: React.MouseEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    panOriginRef.current = { x: event.clientX, y: event.clientY };
+  }, []);
+  
+  const handlePanMove = useCallback((event: React.MouseEvent) => {
+    event.stopPropagation();
+    const origin = panOriginRef.current;
+    if (!origin) return;
+    const delta = { x: event.clientX - origin.x, y: event.clientY - origin.y };
+    panOriginRef.current = { x: event.clientX, y: event.clientY };
+    setViewport(prev => panViewport(containerSize, remoteSize, prev, delta, pixelRatio));
+  }, [containerSize, remoteSize, pixelRatio]);
+  
+  const handlePanEnd = useCallback((event: React.MouseEvent) => {
+    event.stopPropagation();
+    panOriginRef.current = null;
+  }, []);
+  
+  const handlePanWheel = useCallback((event: React.WheelEvent) => {
+    event.stopPropagation();
+    const point = getLocalPoint(event);
+    zoomTo(viewport.zoom * (event.deltaY < 0 ? 1.1 : 1 / 1.1), point ?? undefined);
+  }, [getLocalPoint, viewport.zoom, zoomTo]);
+  
+  const controller = neko.state.members.find(m => m.id === neko.state.controllerId);
+  
+  // Prediction only follows our own pointer while it drives the remote
+  useEffect(() => {
+    if (!neko.state.controlling || !neko.state.cursorPrediction || pointerLocked) {
+      setPredictedCursor(null);
+    }
+  }, [neko.state.controlling, neko.state.cursorPrediction, pointerLocked]);
+  
+  // Servers only report the pointer when the video leaves it out, so the
+  // overlay draws one (hiding the local pointer) only once a position arrives
+  const drawsCursor = neko.state.cursorPosition !== null;
+  
+  // Track the pointer lock, which the browser also ends on Escape
+  useEffect(() => {
+    const handleChange = () => {
+      setPointerLocked(!!containerRef.current && document.pointerLockElement === containerRef.current);
+    };
+    const handleError = () => {
+      console.warn('[Neko] Pointer lock was refused');
+    };
+    
+    document.addEventListener('pointerlockchange', handleChange);
+    document.addEventListener('pointerlockerror', handleError);
+    
+    return () => {
+      document.removeEventListener('pointerlockchange', handleChange);
+      document.removeEventListener('pointerlockerror', handleError);
+    };
+  }, []);
+  
+  // Give the pointer back once control is lost or the mode is switched off
+  useEffect(() => {
+    if ((!neko.state.controlling || !neko.state.pointerLock) && document.pointerLockElement === containerRef.current) {
+      document.exitPointerLock();
+    }
+  }, [neko.state.controlling, neko.state.pointerLock]);
+  
   // Keyboard event handlers
   useEffect(() => {
     if (!neko.state.controlling) return;
     
+    const ime = imeRef.current;
+    const isLocalTarget = (target: EventTarget | null) => target !== ime && isEditableTarget(target);
+    
+    // The paste shortcut is held back until the local paste event has pushed
+    // our clipboard to the remote, so the remote pastes the right text
+    let pendingPaste: KeyboardEvent | null = null;
+    
+    const flushPendingPaste = () => {
+      if (pendingPaste) {
+        neko.sendKeyEvent(pendingPaste, true);
+        pendingPaste = null;
+      }
+    };
+    
     const handleKeyDown = (event: KeyboardEvent) => {
+      if (isLocalTarget(event.target)) return;
+      
+      // Let the browser compose: IME input arrives on compositionend and dead
+      // keys as the accented character of the next key
+      if (event.isComposing || event.key === 'Process' || event.key === 'Dead') return;
+      // Soft keyboards typing into the hidden textarea report 'Unidentified'
+      // and arrive as input events; elsewhere the layout table resolves the key
+      if (event.key === 'Unidentified' && event.target === ime) return;
+      
+      if ((event.ctrlKey || event.metaKey) && event.code === 'KeyV') {
+        pendingPaste = event;
+        return;
+      }
+      
       // Prevent default for most keys to avoid browser shortcuts
-      if (!event.metaKey || event.key === 'v') {
+      if (!event.metaKey) {
         event.preventDefault();
       }
       neko.sendKeyEvent(event, true);
     };
     
     const handleKeyUp = (event: KeyboardEvent) => {
+      if (isLocalTarget(event.target)) return;
+      if (event.isComposing) return;
+      
       event.preventDefault();
+      flushPendingPaste();
       neko.sendKeyEvent(event, false);
     };
     
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isLocalTarget(event.target)) return;
+      
+      event.preventDefault();
+      const text = event.clipboardData?.getData('text/plain');
+      if (text) {
+        neko.sendClipboard(text);
+      }
+      flushPendingPaste();
+    };
+    
+    const handleFocus = () => {
+      neko.syncLocalClipboard();
+    };
+    
+    // Keyups and mouseups no longer reach us once the window loses focus
+    const handleBlur = () => {
+      pendingPaste = null;
+      neko.releaseInputs();
+    };
+    
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        handleBlur();
+      }
+    };
+    
+    const handleCompositionEnd = (event: CompositionEvent) => {
+      if (event.data) {
+        neko.sendText(event.data);
+      }
+      if (ime) {
+        ime.value = '';
+      }
+    };
+    
+    // Soft keyboards edit the hidden input instead of sending usable keys
+    const handleInput = (event: Event) => {
+      const { inputType, data, isComposing } = event as InputEvent;
+      if (isComposing) return;
+      
+      if (inputType === 'insertText' && data) {
+        neko.sendText(data);
+      } else if (inputType === 'insertLineBreak' || inputType === 'insertParagraph') {
+        neko.sendText('\n');
+      } else if (inputType === 'deleteContentBackward') {
+        neko.sendKeysym(KEYSYM_MAP.Backspace, true);
+        neko.sendKeysym(KEYSYM_MAP.Backspace, false);
+      }
+      if (ime) {
+        ime.value = '';
+      }
+    };
+    
     window.addEventListener('keydown', handleKeyDown);
     window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('paste', handlePaste);
+    window.addEventListener('focus', handleFocus);
+    window.addEventListener('blur', handleBlur);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    ime?.addEventListener('compositionend', handleCompositionEnd);
+    ime?.addEventListener('input', handleInput);
     
     return () => {
       window.removeEventListener('keydown', handleKeyDown);
       window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('paste', handlePaste);
+      window.removeEventListener('focus', handleFocus);
+      window.removeEventListener('blur', handleBlur);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      ime?.removeEventListener('compositionend', handleCompositionEnd);
+      ime?.removeEventListener('input', handleInput);
     };
   }, [neko, neko.state.controlling]);
   
   return (
     <div 
       ref={containerRef}
-      className={`relative bg-muted ${className}`}
+      className={`relative overflow-hidden bg-muted ${className}`}
       tabIndex={0}
+      onMouseMove={neko.state.connected ? handlePresenceMove : undefined}
+      onMouseDown={neko.state.controlling ? handleMouseDown : undefined}
+      onMouseUp={neko.state.controlling ? handleMouseUp : undefined}
+      onWheel={neko.state.controlling ? handleWheel : undefined}
+      onMouseLeave={neko.state.connected ? handleMouseLeave : undefined}
+      onContextMenu={handleContextMenu}
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      {...touch.handlers}
+      style={{
+        cursor: neko.state.controlling && drawsCursor ? 'none' : neko.state.laserPointer ? 'crosshair' : 'default',
+        touchAction: neko.state.connected ? 'none' : 'auto',
+      }}
     >
       <video
         ref={videoRef}
-        className="w-full h-full object-contain"
+        className="absolute object-fill"
         autoPlay
         playsInline
-        muted={false}
-        onMouseMove={neko.state.controlling ? handleMouseMove : undefined}
-        onMouseDown={neko.state.controlling ? handleMouseDown : undefined}
-        onMouseUp={neko.state.controlling ? handleMouseUp : undefined}
-        onWheel={neko.state.controlling ? handleWheel : undefined}
-        onContextMenu={handleContextMenu}
-        style={{ cursor: neko.state.controlling ? 'none' : 'default' }}
+        style={{
+          left: mapping.frame.left,
+          top: mapping.frame.top,
+          width: mapping.frame.width,
+          height: mapping.frame.height,
+        }}
       />
       
-      {/* Overlay for non-controlling state */}
-      {neko.state.connected && !neko.state.controlling && (
-        <div 
-          className="absolute inset-0 flex items-center justify-center bg-background/50 cursor-pointer"
-          onClick={() => neko.requestControl()}
-        >
-          <div className="bg-card px-6 py-4 rounded-lg shadow-lg text-center">
-            <p className="text-card-foreground font-medium">Click to take control</p>
-            <p className="text-muted-foreground text-sm mt-1">Or wait for current user to release</p>
+      <textarea
+        ref={imeRef}
+        className="absolute top-0 left-0 w-px h-px text-base opacity-0 pointer-events-none resize-none"
+        tabIndex={-1}
+        aria-hidden="true"
+        autoComplete="off"
+        autoCorrect="off"
+        autoCapitalize="off"
+        spellCheck={false}
+      />
+      
+      {/* Overlay for non-controlling state; hidden while pointing at things */}
+      {neko.state.connected && !neko.state.controlling && !neko.state.laserPointer && (
+        neko.state.controlPending ? (
+          <div className="absolute inset-0 flex items-center justify-center bg-background/50">
+            <div className="bg-card px-6 py-4 rounded-lg shadow-lg text-center">
+              <p className="text-card-foreground font-medium">Control requested</p>
+              <p className="text-muted-foreground text-sm mt-1">
+                Waiting for {controller?.displayName ?? 'the current user'} to respond
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div 
+            className="absolute inset-0 flex items-center justify-center bg-background/50 cursor-pointer"
+            onClick={() => neko.requestControl()}
+          >
+            <div className="bg-card px-6 py-4 rounded-lg shadow-lg text-center">
+              {controller ? (
+                <>
+                  <p className="text-card-foreground font-medium">Click to request control</p>
+                  <p className="text-muted-foreground text-sm mt-1">{controller.displayName} is in control</p>
+                </>
+              ) : (
+                <>
+                  <p className="text-card-foreground font-medium">Click to take control</p>
+                  <p className="text-muted-foreground text-sm mt-1">Or wait for current user to release</p>
+                </>
+              )}
+            </div>
           </div>
+        )
+      )}
+      
+      {neko.state.connected && <NekoPresence neko={neko} mapping={mapping} />}
+      
+      {neko.state.connected && drawsCursor && (
+        <NekoCursor
+          image={neko.state.cursorImage}
+          position={neko.state.cursorPosition}
+          predicted={predictedCursor}
+          mapping={mapping}
+          remoteWidth={neko.state.videoWidth}
+        />
+      )}
+      
+      {/* Trackpad mode cursor */}
+      {touch.cursor && (
+        <div
+          className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-full bg-primary border-2 border-primary-foreground shadow pointer-events-none"
+          style={{ left: mapping.toLocal(touch.cursor).x, top: mapping.toLocal(touch.cursor).y }}
+        />
+      )}
+      
+      {/* Pan mode captures the pointer for moving and zooming the view */}
+      {panning && (
+        <div
+          className="absolute inset-0 cursor-grab active:cursor-grabbing"
+          onMouseDown={handlePanStart}
+          onMouseMove={handlePanMove}
+          onMouseUp={handlePanEnd}
+          onMouseLeave={handlePanEnd}
+          onWheel={handlePanWheel}
+        />
+      )}
+      
+      {neko.state.connected && (
+        <NekoViewportControls
+          viewport={viewport}
+          panning={panning}
+          onViewportChange={setViewport}
+          onZoom={(zoom) => zoomTo(zoom)}
+          onPanningChange={setPanning}
+          className="absolute bottom-4 left-4"
+        />
+      )}
+      
+      {neko.state.controlling && isTouch && (
+        <NekoTouchControls
+          trackpad={trackpad}
+          onTrackpadChange={setTrackpad}
+          onShowKeyboard={() => imeRef.current?.focus()}
+          className="absolute bottom-16 left-4"
+        />
+      )}
+      
+      {/* Files dragged over the video */}
+      {droppingFiles && (
+        <div className="absolute inset-2 flex items-center justify-center border-2 border-dashed border-primary rounded-lg bg-background/60 pointer-events-none">
+          <p className="text-foreground font-medium">Drop files to upload them to the remote browser</p>
+        </div>
+      )}
+      
+      {/* Pointer captured for relative movement */}
+      {pointerLocked && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 px-3 py-1 bg-card/90 border border-border rounded-full shadow-lg pointer-events-none">
+          <span className="text-sm text-card-foreground">Press Esc to release the mouse</span>
+        </div>
+      )}
+      
+      {/* Media path recovering without a full reconnect */}
+      {neko.state.connected && neko.state.iceRestarting && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-2 px-3 py-1 bg-card/90 border border-border rounded-full shadow-lg">
+          <div className="w-3 h-3 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+          <span className="text-sm text-card-foreground">Connection unstable, recovering...</span>
         </div>
       )}
       
       {/* Loading state */}
       {neko.state.connecting && (
         <div className="absolute inset-0 flex items-center justify-center bg-background/80">
-          <div className="text-center">
-            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto" />
-            <p className="text-foreground mt-4">Connecting...</p>
-          </div>
+          {neko.state.reconnectAttempt > 0 ? (
+            <NekoReconnectBanner neko={neko} />
+          ) : (
+            <div className="text-center">
+              <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto" />
+              <p className="text-foreground mt-4">{PHASE_LABELS[neko.state.phase]}...</p>
+            </div>
+          )}
         </div>
       )}
       
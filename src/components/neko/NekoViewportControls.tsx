@@ -0,0 +1,101 @@
+// Neko Viewport Controls Component - Scaling mode, zoom and pan for the remote frame
+
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Hand, RotateCcw, ZoomIn, ZoomOut } from 'lucide-react';
+import type { Viewport, ViewportMode } from '@/lib/neko/types';
+import { DEFAULT_VIEWPORT, MAX_ZOOM, MIN_ZOOM, VIEWPORT_MODE_LABELS } from '@/lib/neko/viewport';
+
+interface NekoViewportControlsProps {
+  viewport: Viewport;
+  panning: boolean;
+  onViewportChange: (viewport: Viewport) => void;
+  onZoom: (zoom: number) => void;
+  onPanningChange: (panning: boolean) => void;
+  className?: string;
+}
+
+const ZOOM_STEP = 1.25;
+
+// Pointer events inside the toolbar (including its portalled menus) must not
+// reach the video's input handlers
+const stopPropagation = (event: React.SyntheticEvent) => event.stopPropagation();
+
+export function NekoViewportControls({
+  viewport,
+  panning,
+  onViewportChange,
+  onZoom,
+  onPanningChange,
+  className = '',
+}: NekoViewportControlsProps) {
+  return (
+    <div
+      className={`flex items-center gap-1 p-1 bg-card/90 border border-border rounded-lg shadow-lg cursor-default opacity-70 hover:opacity-100 ${className}`}
+      onMouseDown={stopPropagation}
+      onMouseUp={stopPropagation}
+      onMouseMove={stopPropagation}
+      onWheel={stopPropagation}
+      onTouchStart={stopPropagation}
+      onTouchMove={stopPropagation}
+      onTouchEnd={stopPropagation}
+    >
+      <Select
+        value={viewport.mode}
+        onValueChange={(mode) => onViewportChange({ ...viewport, mode: mode as ViewportMode, panX: 0, panY: 0 })}
+      >
+        <SelectTrigger className="h-8 w-28 text-sm">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(VIEWPORT_MODE_LABELS).map(([mode, label]) => (
+            <SelectItem key={mode} value={mode}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        title="Zoom out"
+        disabled={viewport.zoom <= MIN_ZOOM}
+        onClick={() => onZoom(viewport.zoom / ZOOM_STEP)}
+      >
+        <ZoomOut className="w-4 h-4" />
+      </Button>
+      <span className="w-12 text-center text-xs font-mono text-card-foreground">
+        {Math.round(viewport.zoom * 100)}%
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        title="Zoom in"
+        disabled={viewport.zoom >= MAX_ZOOM}
+        onClick={() => onZoom(viewport.zoom * ZOOM_STEP)}
+      >
+        <ZoomIn className="w-4 h-4" />
+      </Button>
+
+      <Button
+        variant={panning ? 'secondary' : 'ghost'}
+        size="icon"
+        className="h-8 w-8"
+        title={panning ? 'Stop panning' : 'Pan and zoom with the mouse'}
+        onClick={() => onPanningChange(!panning)}
+      >
+        <Hand className="w-4 h-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8"
+        title="Reset view"
+        onClick={() => onViewportChange({ ...DEFAULT_VIEWPORT, mode: viewport.mode })}
+      >
+        <RotateCcw className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+}
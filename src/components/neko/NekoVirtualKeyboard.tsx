@@ -0,0 +1,265 @@
+// Neko Virtual Keyboard Component - On-screen keyboard with sticky modifiers
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { GripHorizontal, PanelBottom, PictureInPicture2, X } from 'lucide-react';
+import type { UseNekoReturn } from '@/hooks/use-neko';
+import type { KeyboardLayout } from '@/lib/neko/types';
+import { KEYBOARD_LAYOUTS } from '@/lib/neko/layouts';
+import { KEYSYM_MAP, getCharKeysym } from '@/lib/neko/protocol';
+
+interface NekoVirtualKeyboardProps {
+  neko: UseNekoReturn;
+  docked: boolean;
+  onDockedChange: (docked: boolean) => void;
+  onClose: () => void;
+  className?: string;
+}
+
+type NamedLayout = Exclude<KeyboardLayout, 'auto'>;
+
+// A key by physical code; width in key units
+type VirtualKey = { code: string; width?: number };
+
+const ROWS: VirtualKey[][] = [
+  [
+    { code: 'Escape' },
+    ...Array.from({ length: 12 }, (_, i) => ({ code: `F${i + 1}` })),
+    { code: 'PrintScreen' }, { code: 'ScrollLock' }, { code: 'Pause' },
+  ],
+  [
+    ...['Backquote', 'Digit1', 'Digit2', 'Digit3', 'Digit4', 'Digit5', 'Digit6', 'Digit7',
+      'Digit8', 'Digit9', 'Digit0', 'Minus', 'Equal'].map(code => ({ code })),
+    { code: 'Backspace', width: 2 },
+  ],
+  [
+    { code: 'Tab', width: 1.5 },
+    ...['KeyQ', 'KeyW', 'KeyE', 'KeyR', 'KeyT', 'KeyY', 'KeyU', 'KeyI', 'KeyO', 'KeyP',
+      'BracketLeft', 'BracketRight'].map(code => ({ code })),
+    { code: 'Backslash', width: 1.5 },
+  ],
+  [
+    { code: 'CapsLock', width: 1.75 },
+    ...['KeyA', 'KeyS', 'KeyD', 'KeyF', 'KeyG', 'KeyH', 'KeyJ', 'KeyK', 'KeyL',
+      'Semicolon', 'Quote'].map(code => ({ code })),
+    { code: 'Enter', width: 2.25 },
+  ],
+  [
+    { code: 'ShiftLeft', width: 1.25 },
+    { code: 'IntlBackslash' },
+    ...['KeyZ', 'KeyX', 'KeyC', 'KeyV', 'KeyB', 'KeyN', 'KeyM', 'Comma', 'Period', 'Slash'].map(code => ({ code })),
+    { code: 'ShiftRight', width: 2.75 },
+  ],
+  [
+    { code: 'ControlLeft', width: 1.25 }, { code: 'MetaLeft', width: 1.25 }, { code: 'AltLeft', width: 1.25 },
+    { code: 'Space', width: 5.5 },
+    { code: 'AltRight', width: 1.25 }, { code: 'ContextMenu' }, { code: 'ControlRight', width: 1.25 },
+    { code: 'ArrowLeft' }, { code: 'ArrowUp' }, { code: 'ArrowDown' }, { code: 'ArrowRight' },
+  ],
+  [
+    ...['Insert', 'Delete', 'Home', 'End', 'PageUp', 'PageDown'].map(code => ({ code, width: 1.5 })),
+  ],
+];
+
+const LABELS: Record<string, string> = {
+  Escape: 'Esc', PrintScreen: 'PrtSc', ScrollLock: 'ScrLk', Pause: 'Pause',
+  Backspace: '⌫', Tab: 'Tab', CapsLock: 'Caps', Enter: 'Enter',
+  ShiftLeft: 'Shift', ShiftRight: 'Shift', ControlLeft: 'Ctrl', ControlRight: 'Ctrl',
+  MetaLeft: 'Super', AltLeft: 'Alt', AltRight: 'AltGr', ContextMenu: 'Menu', Space: '',
+  ArrowLeft: '←', ArrowUp: '↑', ArrowDown: '↓', ArrowRight: '→',
+  Insert: 'Ins', Delete: 'Del', Home: 'Home', End: 'End', PageUp: 'PgUp', PageDown: 'PgDn',
+};
+
+const MODIFIERS = new Set(['ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'MetaLeft']);
+
+// One tap latches a modifier for the next key, a second tap locks it
+type ModifierState = 'latched' | 'locked';
+
+export function NekoVirtualKeyboard({ neko, docked, onDockedChange, onClose, className = '' }: NekoVirtualKeyboardProps) {
+  const { keyboardLayout, detectedLayout } = neko.state;
+  const [layout, setLayout] = useState<NamedLayout>(
+    keyboardLayout === 'auto' ? detectedLayout ?? 'us' : keyboardLayout
+  );
+  const [modifiers, setModifiers] = useState<Record<string, ModifierState>>({});
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const modifiersRef = useRef(modifiers);
+  modifiersRef.current = modifiers;
+
+  const table = KEYBOARD_LAYOUTS[layout].table;
+  const shifted = !!(modifiers.ShiftLeft || modifiers.ShiftRight);
+  const { sendKeysym } = neko;
+
+  const keysymFor = useCallback((code: string): number | null => {
+    const character = table[code];
+    if (character) return getCharKeysym(character[shifted ? 1 : 0]);
+    return KEYSYM_MAP[code] ?? null;
+  }, [shifted, table]);
+
+  // Latched modifiers apply to one key, then let go
+  const releaseLatched = useCallback(() => {
+    const next: Record<string, ModifierState> = {};
+    for (const [code, state] of Object.entries(modifiersRef.current)) {
+      if (state === 'locked') {
+        next[code] = state;
+      } else {
+        sendKeysym(KEYSYM_MAP[code], false);
+      }
+    }
+    setModifiers(next);
+  }, [sendKeysym]);
+
+  // Nothing stays held on the remote once the panel goes away
+  useEffect(() => () => {
+    for (const code of Object.keys(modifiersRef.current)) {
+      sendKeysym(KEYSYM_MAP[code], false);
+    }
+  }, [sendKeysym]);
+
+  const toggleModifier = (code: string) => {
+    const state = modifiers[code];
+    if (!state) {
+      sendKeysym(KEYSYM_MAP[code], true);
+      setModifiers({ ...modifiers, [code]: 'latched' });
+    } else if (state === 'latched') {
+      setModifiers({ ...modifiers, [code]: 'locked' });
+    } else {
+      sendKeysym(KEYSYM_MAP[code], false);
+      const { [code]: _released, ...rest } = modifiers;
+      setModifiers(rest);
+    }
+  };
+
+  // Keys go down on press and up on release, so holding a key repeats it
+  const pressKey = (event: React.PointerEvent, code: string) => {
+    event.preventDefault();
+    if (MODIFIERS.has(code)) {
+      toggleModifier(code);
+      return;
+    }
+    const keysym = keysymFor(code);
+    if (keysym === null) return;
+    (event.currentTarget as HTMLElement).setPointerCapture(event.pointerId);
+    sendKeysym(keysym, true);
+  };
+
+  const releaseKey = (code: string) => {
+    if (MODIFIERS.has(code)) return;
+    const keysym = keysymFor(code);
+    if (keysym === null) return;
+    sendKeysym(keysym, false);
+    releaseLatched();
+  };
+
+  const sendCtrlAltDel = () => {
+    const keys = [KEYSYM_MAP.ControlLeft, KEYSYM_MAP.AltLeft, KEYSYM_MAP.Delete];
+    keys.forEach(keysym => sendKeysym(keysym, true));
+    [...keys].reverse().forEach(keysym => sendKeysym(keysym, false));
+  };
+
+  // Floating panels can be dragged by their header
+  const handleDragStart = (event: React.PointerEvent) => {
+    if (docked) return;
+    (event.currentTarget as HTMLElement).setPointerCapture(event.pointerId);
+    dragRef.current = { x: event.clientX - offset.x, y: event.clientY - offset.y };
+  };
+
+  const handleDragMove = (event: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    setOffset({ x: event.clientX - dragRef.current.x, y: event.clientY - dragRef.current.y });
+  };
+
+  const label = (code: string): string => {
+    const character = table[code];
+    if (character) return character[shifted ? 1 : 0];
+    return LABELS[code] ?? code;
+  };
+
+  return (
+    <div
+      className={`p-2 bg-card/95 border border-border rounded-lg shadow-lg select-none touch-none ${className}`}
+      style={docked ? undefined : { transform: `translate(${offset.x}px, ${offset.y}px)` }}
+    >
+      {/* Header */}
+      <div
+        className={`flex items-center gap-2 mb-2 ${docked ? '' : 'cursor-move'}`}
+        onPointerDown={handleDragStart}
+        onPointerMove={handleDragMove}
+        onPointerUp={() => { dragRef.current = null; }}
+      >
+        {!docked && <GripHorizontal className="w-4 h-4 text-muted-foreground" />}
+        <Select value={layout} onValueChange={(value) => setLayout(value as NamedLayout)}>
+          <SelectTrigger className="h-7 w-40 text-xs" onPointerDown={(e) => e.stopPropagation()}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(KEYBOARD_LAYOUTS).map(([id, { label }]) => (
+              <SelectItem key={id} value={id}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={sendCtrlAltDel}
+        >
+          Ctrl+Alt+Del
+        </Button>
+        <div className="flex-1" />
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title={docked ? 'Float over the video' : 'Dock below the video'}
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={() => onDockedChange(!docked)}
+        >
+          {docked ? <PictureInPicture2 className="w-4 h-4" /> : <PanelBottom className="w-4 h-4" />}
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          title="Close keyboard"
+          onPointerDown={(e) => e.stopPropagation()}
+          onClick={onClose}
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {/* Keys */}
+      <div className="space-y-1">
+        {ROWS.map((row, index) => (
+          <div key={index} className="flex gap-1">
+            {row.filter(({ code }) => table[code] || KEYSYM_MAP[code] !== undefined).map(({ code, width = 1 }) => {
+              const modifier = modifiers[code];
+              return (
+                <button
+                  key={code}
+                  type="button"
+                  className={`h-9 min-w-0 rounded border text-xs font-medium transition-colors ${
+                    modifier === 'locked'
+                      ? 'bg-primary text-primary-foreground border-primary'
+                      : modifier === 'latched'
+                        ? 'bg-primary/30 text-card-foreground border-primary'
+                        : 'bg-muted text-card-foreground border-border hover:bg-accent active:bg-accent'
+                  }`}
+                  style={{ flex: `${width} 1 0` }}
+                  onPointerDown={(event) => pressKey(event, code)}
+                  onPointerUp={() => releaseKey(code)}
+                  onPointerCancel={() => releaseKey(code)}
+                >
+                  {label(code)}
+                </button>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+// Neko Volume Component - Remote audio volume and mute controls
+
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { Volume1, Volume2, VolumeX } from 'lucide-react';
+import type { UseNekoReturn } from '@/hooks/use-neko';
+
+interface NekoVolumeProps {
+  neko: UseNekoReturn;
+  className?: string;
+}
+
+export function NekoVolume({ neko, className = '' }: NekoVolumeProps) {
+  const { volume, audioMuted } = neko.state;
+  const silent = audioMuted || volume === 0;
+
+  return (
+    <div className={`flex items-center gap-2 ${className}`}>
+      <Button
+        variant="secondary"
+        size="icon"
+        title={audioMuted ? 'Unmute' : 'Mute'}
+        onClick={() => neko.setAudioMuted(!audioMuted)}
+      >
+        {silent ? (
+          <VolumeX className="w-4 h-4" />
+        ) : volume < 0.5 ? (
+          <Volume1 className="w-4 h-4" />
+        ) : (
+          <Volume2 className="w-4 h-4" />
+        )}
+      </Button>
+      <Slider
+        className="w-24"
+        min={0}
+        max={100}
+        step={1}
+        value={[audioMuted ? 0 : Math.round(volume * 100)]}
+        onValueChange={([value]) => {
+          neko.setVolume(value / 100);
+          if (audioMuted && value > 0) {
+            neko.setAudioMuted(false);
+          }
+        }}
+      />
+    </div>
+  );
+}
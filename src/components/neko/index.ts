@@ -3,3 +3,20 @@
 export { NekoBrowser } from './NekoBrowser';
 export { NekoVideo } from './NekoVideo';
 export { NekoControls } from './NekoControls';
+export { NekoMembers } from './NekoMembers';
+export { NekoControlRequests } from './NekoControlRequests';
+export { NekoAdminPanel } from './NekoAdminPanel';
+export { NekoClipboard } from './NekoClipboard';
+export { NekoResolution } from './NekoResolution';
+export { NekoVolume } from './NekoVolume';
+export { NekoReconnectBanner } from './NekoReconnectBanner';
+export { NekoStatsOverlay } from './NekoStatsOverlay';
+export { NekoViewportControls } from './NekoViewportControls';
+export { NekoTouchControls } from './NekoTouchControls';
+export { NekoVirtualKeyboard } from './NekoVirtualKeyboard';
+export { NekoInputSettings } from './NekoInputSettings';
+export { NekoCursor } from './NekoCursor';
+export { NekoPresence } from './NekoPresence';
+export { NekoChat } from './NekoChat';
+export { NekoUploads } from './NekoUploads';
+export { NekoDownloads } from './NekoDownloads';
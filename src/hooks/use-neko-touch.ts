@@ -0,0 +1,237 @@
+// React hook turning touch gestures into Neko mouse input
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { UseNekoReturn } from '@/hooks/use-neko';
+import type { Point, ViewportMapping } from '@/lib/neko/viewport';
+
+// Gesture tuning, in milliseconds and CSS pixels
+const LONG_PRESS_DELAY = 500;
+const TAP_SLOP = 10;
+const SCROLL_STEP = 20;
+const PINCH_THRESHOLD = 0.1;
+const TRACKPAD_SPEED = 1.5;
+
+// Browser button numbers, mapped to X11 buttons by the client
+const LEFT_BUTTON = 0;
+const RIGHT_BUTTON = 2;
+
+interface UseNekoTouchOptions {
+  neko: UseNekoReturn;
+  mapping: ViewportMapping;
+  // Relative "laptop trackpad" input instead of touching where to click
+  trackpad: boolean;
+  zoom: number;
+  onZoom: (zoom: number, anchor: Point) => void;
+  getLocalPoint: (touch: { clientX: number; clientY: number }) => Point | null;
+}
+
+type Gesture =
+  | { kind: 'none' }
+  | { kind: 'press'; start: Point; last: Point; moved: boolean; longPressed: boolean }
+  | { kind: 'two-finger'; startDistance: number; startZoom: number; lastMidpoint: Point; scroll: number; pinching: boolean };
+
+export interface UseNekoTouchReturn {
+  handlers: {
+    onTouchStart: (event: React.TouchEvent) => void;
+    onTouchMove: (event: React.TouchEvent) => void;
+    onTouchEnd: (event: React.TouchEvent) => void;
+    onTouchCancel: (event: React.TouchEvent) => void;
+  };
+  // Trackpad mode cursor in remote pixels
+  cursor: Point | null;
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+export function useNekoTouch({ neko, mapping, trackpad, zoom, onZoom, getLocalPoint }: UseNekoTouchOptions): UseNekoTouchReturn {
+  const gestureRef = useRef<Gesture>({ kind: 'none' });
+  const longPressRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [cursor, setCursor] = useState<Point | null>(null);
+  const cursorRef = useRef<Point | null>(null);
+  const { videoWidth, videoHeight, controlling } = neko.state;
+
+  // The trackpad cursor starts in the middle of the remote screen
+  useEffect(() => {
+    const initial = trackpad ? { x: videoWidth / 2, y: videoHeight / 2 } : null;
+    cursorRef.current = initial;
+    setCursor(initial);
+  }, [trackpad, videoWidth, videoHeight]);
+
+  const clearLongPress = useCallback(() => {
+    if (longPressRef.current) {
+      clearTimeout(longPressRef.current);
+      longPressRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => clearLongPress, [clearLongPress]);
+
+  // Where a press at a local point acts on the remote screen
+  const targetFor = useCallback((point: Point): Point | null => {
+    return trackpad ? cursorRef.current : mapping.toRemote(point, 'drop');
+  }, [mapping, trackpad]);
+
+  const click = useCallback((target: Point, button: number) => {
+    neko.sendMouseMove(target.x, target.y);
+    neko.sendMouseButton(button, true);
+    neko.sendMouseButton(button, false);
+  }, [neko]);
+
+  const touchPoints = useCallback((event: React.TouchEvent): Point[] => {
+    return Array.from(event.touches)
+      .map(touch => getLocalPoint(touch))
+      .filter((point): point is Point => point !== null);
+  }, [getLocalPoint]);
+
+  const onTouchStart = useCallback((event: React.TouchEvent) => {
+    const points = touchPoints(event);
+    clearLongPress();
+
+    if (points.length >= 2) {
+      // A second finger turns any single-finger gesture into scroll or pinch
+      const gesture = gestureRef.current;
+      if (gesture.kind === 'press' && gesture.moved && !trackpad) {
+        neko.sendMouseButton(LEFT_BUTTON, false);
+      }
+      gestureRef.current = {
+        kind: 'two-finger',
+        startDistance: distance(points[0], points[1]),
+        startZoom: zoom,
+        lastMidpoint: midpoint(points[0], points[1]),
+        scroll: 0,
+        pinching: false,
+      };
+      return;
+    }
+
+    if (points.length !== 1 || !controlling) return;
+    const start = points[0];
+    gestureRef.current = { kind: 'press', start, last: start, moved: false, longPressed: false };
+
+    longPressRef.current = setTimeout(() => {
+      longPressRef.current = null;
+      const gesture = gestureRef.current;
+      if (gesture.kind !== 'press' || gesture.moved) return;
+      gesture.longPressed = true;
+      const target = targetFor(start);
+      if (target) {
+        click(target, RIGHT_BUTTON);
+      }
+    }, LONG_PRESS_DELAY);
+  }, [clearLongPress, click, controlling, neko, targetFor, touchPoints, trackpad, zoom]);
+
+  const onTouchMove = useCallback((event: React.TouchEvent) => {
+    const points = touchPoints(event);
+    const gesture = gestureRef.current;
+
+    if (gesture.kind === 'two-finger' && points.length >= 2) {
+      const center = midpoint(points[0], points[1]);
+      const scale = distance(points[0], points[1]) / gesture.startDistance;
+
+      // Fingers spreading or closing zoom the local view
+      if (gesture.pinching || Math.abs(scale - 1) > PINCH_THRESHOLD) {
+        gesture.pinching = true;
+        onZoom(gesture.startZoom * scale, center);
+        gesture.lastMidpoint = center;
+        return;
+      }
+
+      // Fingers moving together scroll, content following the fingers
+      if (controlling) {
+        gesture.scroll += gesture.lastMidpoint.y - center.y;
+        while (Math.abs(gesture.scroll) >= SCROLL_STEP) {
+          const direction = Math.sign(gesture.scroll);
+          neko.sendMouseScroll(0, direction * 10);
+          gesture.scroll -= direction * SCROLL_STEP;
+        }
+      }
+      gesture.lastMidpoint = center;
+      return;
+    }
+
+    if (gesture.kind !== 'press' || points.length !== 1) return;
+    const point = points[0];
+
+    if (!gesture.moved && distance(point, gesture.start) <= TAP_SLOP) return;
+    clearLongPress();
+    if (gesture.longPressed) return;
+
+    if (trackpad) {
+      // Move the virtual cursor by the finger's movement
+      const delta = mapping.scaleToRemote({
+        x: (point.x - gesture.last.x) * TRACKPAD_SPEED,
+        y: (point.y - gesture.last.y) * TRACKPAD_SPEED,
+      });
+      const current = cursorRef.current ?? { x: videoWidth / 2, y: videoHeight / 2 };
+      const next = {
+        x: Math.min(videoWidth - 1, Math.max(0, current.x + delta.x)),
+        y: Math.min(videoHeight - 1, Math.max(0, current.y + delta.y)),
+      };
+      cursorRef.current = next;
+      setCursor(next);
+      neko.sendMouseMove(next.x, next.y);
+    } else {
+      // Dragging holds the left button, like dragging a mouse
+      if (!gesture.moved) {
+        const start = mapping.toRemote(gesture.start, 'drop');
+        if (!start) {
+          gestureRef.current = { kind: 'none' };
+          return;
+        }
+        neko.sendMouseMove(start.x, start.y);
+        neko.sendMouseButton(LEFT_BUTTON, true);
+      }
+      const pos = mapping.toRemote(point, 'clamp');
+      if (pos) {
+        neko.sendMouseMove(pos.x, pos.y);
+      }
+    }
+
+    gesture.moved = true;
+    gesture.last = point;
+  }, [clearLongPress, controlling, mapping, neko, onZoom, touchPoints, trackpad, videoHeight, videoWidth]);
+
+  const onTouchEnd = useCallback((event: React.TouchEvent) => {
+    const gesture = gestureRef.current;
+    clearLongPress();
+
+    // Keep the browser from synthesizing mouse events from handled touches;
+    // other taps still click overlays such as the control request prompt
+    if (gesture.kind !== 'none') {
+      event.preventDefault();
+    }
+    if (event.touches.length > 0 && gesture.kind === 'two-finger') return;
+    gestureRef.current = { kind: 'none' };
+
+    if (gesture.kind !== 'press' || gesture.longPressed) return;
+
+    if (gesture.moved) {
+      if (!trackpad) {
+        neko.sendMouseButton(LEFT_BUTTON, false);
+      }
+      return;
+    }
+
+    const target = targetFor(gesture.start);
+    if (target) {
+      click(target, LEFT_BUTTON);
+    }
+  }, [clearLongPress, click, neko, targetFor, trackpad]);
+
+  const onTouchCancel = useCallback(() => {
+    clearLongPress();
+    gestureRef.current = { kind: 'none' };
+    neko.releaseButtons();
+  }, [clearLongPress, neko]);
+
+  return {
+    handlers: { onTouchStart, onTouchMove, onTouchEnd, onTouchCancel },
+    cursor: trackpad ? cursor : null,
+  };
+}
@@ -1,50 +1,112 @@
 // React hook for Neko client
 
 import { useState, useCallback, useRef, useEffect } from 'react';
-import { NekoClient } from '@/lib/neko/client';
-import type { NekoConfig, NekoState } from '@/lib/neko/types';
+import { NekoClient, createInitialState } from '@/lib/neko/client';
+import { loadSettings, saveSettings } from '@/lib/neko/settings';
+import { BUILTIN_REMAP_PROFILES } from '@/lib/neko/hotkeys';
+import type { NekoConfig, NekoState, NekoEvents, KeyboardLayout, HotkeyChord, KeyRemapProfile } from '@/lib/neko/types';
+
+// Client events that components can subscribe to through the hook
+export type NekoListeners = Pick<
+  NekoEvents,
+  'onMemberJoined' | 'onMemberLeft' | 'onControlRequested' | 'onControlDenied' | 'onDownloadAdded'
+>;
 
 export interface UseNekoReturn {
   state: NekoState;
   connect: (config: NekoConfig) => Promise<void>;
   disconnect: () => Promise<void>;
+  retryNow: () => void;
+  cancelReconnect: () => Promise<void>;
   requestControl: () => void;
   releaseControl: () => void;
+  giveControl: (memberId: string) => void;
+  acceptControlRequest: (memberId: string) => void;
+  denyControlRequest: (memberId: string) => void;
+  lockRoom: () => void;
+  unlockRoom: () => void;
+  forceControl: () => void;
+  forceRelease: () => void;
+  kickMember: (memberId: string) => void;
+  muteMember: (memberId: string) => void;
+  unmuteMember: (memberId: string) => void;
+  sendClipboard: (text: string) => void;
+  syncLocalClipboard: () => void;
+  requestScreenConfigurations: () => void;
+  setScreenResolution: (width: number, height: number, rate: number) => void;
+  setMatchWindow: (enabled: boolean) => void;
+  setMatchWindowSize: (width: number, height: number) => void;
+  setVolume: (volume: number) => void;
+  setAudioMuted: (muted: boolean) => void;
+  unlockAudio: () => void;
+  setStatsEnabled: (enabled: boolean) => void;
+  setKeyboardLayout: (layout: KeyboardLayout) => void;
+  setPointerLock: (enabled: boolean) => void;
+  setCursorPrediction: (enabled: boolean) => void;
+  setLaserPointer: (enabled: boolean) => void;
+  sharePointer: (x: number, y: number) => void;
+  hidePointer: () => void;
+  sendChatMessage: (content: string) => void;
+  uploadFile: (file: File) => void;
+  cancelUpload: (id: string) => void;
+  dismissUpload: (id: string) => void;
+  fetchDownload: (id: string) => Promise<Blob>;
+  deleteDownload: (id: string) => void;
+  setReleaseHotkey: (chord: HotkeyChord | null) => void;
+  setRemapProfiles: (profiles: KeyRemapProfile[], activeId: string | null) => void;
   setVideoElement: (element: HTMLVideoElement | null) => void;
   sendMouseMove: (x: number, y: number) => void;
+  sendMouseMoveRelative: (deltaX: number, deltaY: number) => void;
   sendMouseScroll: (deltaX: number, deltaY: number) => void;
   sendMouseButton: (button: number, pressed: boolean) => void;
   sendKeyEvent: (event: KeyboardEvent, pressed: boolean) => void;
+  sendKeysym: (keysym: number, pressed: boolean) => void;
+  sendText: (text: string) => void;
+  releaseInputs: () => void;
+  releaseButtons: () => void;
 }
 
-export function useNeko(): UseNekoReturn {
+export function useNeko(listeners: NekoListeners = {}): UseNekoReturn {
   const clientRef = useRef<NekoClient | null>(null);
-  const [state, setState] = useState<NekoState>({
-    connected: false,
-    connecting: false,
-    controlling: false,
-    videoWidth: 1280,
-    videoHeight: 720,
-    error: null,
-  });
+  const listenersRef = useRef(listeners);
+  listenersRef.current = listeners;
+  const [state, setState] = useState<NekoState>(createInitialState);
   
   // Initialize client on mount
   useEffect(() => {
-    clientRef.current = new NekoClient({
-      onConnected: () => {
-        setState(prev => ({ ...prev, connected: true, connecting: false }));
+    const client = new NekoClient({
+      // Phase-derived flags are copied from the client so they never disagree
+      onPhaseChange: () => {
+        const next = client.getState();
+        setState(prev => ({
+          ...prev,
+          phase: next.phase,
+          connected: next.connected,
+          connecting: next.connecting,
+          controlling: next.controlling,
+          error: next.error,
+        }));
+      },
+      onReconnectChange: (attempt, nextRetryAt) => {
+        setState(prev => ({ ...prev, reconnectAttempt: attempt, nextRetryAt }));
+      },
+      onIceRestarting: (restarting) => {
+        setState(prev => ({ ...prev, iceRestarting: restarting }));
       },
       onDisconnected: (reason) => {
         setState(prev => ({ 
           ...prev, 
-          connected: false, 
-          connecting: false,
-          controlling: false,
+          members: [],
+          controllerId: null,
+          controlPending: false,
+          controlRequests: [],
+          locked: false,
+          clipboard: '',
           error: reason || null 
         }));
       },
       onError: (error) => {
-        setState(prev => ({ ...prev, error, connecting: false }));
+        setState(prev => ({ ...prev, error }));
       },
       onControlGranted: () => {
         setState(prev => ({ ...prev, controlling: true }));
@@ -52,11 +114,97 @@ export function useNeko(): UseNekoReturn {
       onControlReleased: () => {
         setState(prev => ({ ...prev, controlling: false }));
       },
-      onResize: (width, height) => {
-        setState(prev => ({ ...prev, videoWidth: width, videoHeight: height }));
+      onResize: (width, height, rate) => {
+        setState(prev => ({ ...prev, videoWidth: width, videoHeight: height, videoRate: rate }));
+      },
+      onScreenConfigurations: (configurations) => {
+        setState(prev => ({ ...prev, screenConfigurations: configurations }));
+      },
+      onIdentity: (id) => {
+        setState(prev => ({ ...prev, memberId: id }));
+      },
+      onMembersChanged: (members) => {
+        setState(prev => ({ ...prev, members }));
+      },
+      onMemberJoined: (member) => {
+        listenersRef.current.onMemberJoined?.(member);
+      },
+      onMemberLeft: (member) => {
+        listenersRef.current.onMemberLeft?.(member);
+      },
+      onControllerChanged: (id) => {
+        setState(prev => ({ ...prev, controllerId: id }));
+      },
+      onControlPending: (pending) => {
+        setState(prev => ({ ...prev, controlPending: pending }));
+      },
+      onControlDenied: () => {
+        listenersRef.current.onControlDenied?.();
+      },
+      onControlRequested: (member) => {
+        listenersRef.current.onControlRequested?.(member);
+      },
+      onControlRequestsChanged: (ids) => {
+        setState(prev => ({ ...prev, controlRequests: ids }));
+      },
+      onLockChanged: (locked) => {
+        setState(prev => ({ ...prev, locked }));
+      },
+      onClipboard: (text) => {
+        setState(prev => ({ ...prev, clipboard: text }));
+      },
+      onVolumeChange: (volume, muted) => {
+        setState(prev => ({ ...prev, volume, audioMuted: muted }));
+        saveSettings({ volume, audioMuted: muted });
+      },
+      onAutoplayBlocked: (blocked) => {
+        setState(prev => ({ ...prev, autoplayBlocked: blocked }));
+      },
+      onStats: (stats, history) => {
+        setState(prev => ({ ...prev, stats, statsHistory: history }));
+      },
+      onKeyboardLayoutChange: (layout, detected) => {
+        setState(prev => ({ ...prev, keyboardLayout: layout, detectedLayout: detected }));
+        saveSettings({ keyboardLayout: layout });
+      },
+      onCursorImage: (image) => {
+        setState(prev => ({ ...prev, cursorImage: image }));
+      },
+      onCursorPosition: (position) => {
+        setState(prev => ({ ...prev, cursorPosition: position }));
+      },
+      onPointersChanged: (pointers) => {
+        setState(prev => ({ ...prev, pointers }));
+      },
+      onChat: (chat) => {
+        setState(prev => ({ ...prev, chat }));
+      },
+      onUploadsChanged: (uploads) => {
+        setState(prev => ({ ...prev, uploads }));
+      },
+      onDownloadsChanged: (downloads) => {
+        setState(prev => ({ ...prev, downloads }));
+      },
+      onDownloadProgress: (downloadProgress) => {
+        setState(prev => ({ ...prev, downloadProgress }));
+      },
+      onDownloadAdded: (download) => {
+        listenersRef.current.onDownloadAdded?.(download);
       },
     });
     
+    clientRef.current = client;
+    
+    const settings = loadSettings();
+    client.setVolume(settings.volume);
+    client.setAudioMuted(settings.audioMuted);
+    client.setKeyboardLayout(settings.keyboardLayout);
+    client.setReleaseHotkey(settings.releaseHotkey);
+    client.setRemapProfiles([...BUILTIN_REMAP_PROFILES, ...settings.remapProfiles], settings.remapProfileId);
+    client.setCursorPrediction(settings.cursorPrediction);
+    const { releaseHotkey, remapProfiles, remapProfileId, cursorPrediction } = client.getState();
+    setState(prev => ({ ...prev, releaseHotkey, remapProfiles, remapProfileId, cursorPrediction }));
+    
     return () => {
       clientRef.current?.disconnect();
     };
@@ -65,14 +213,13 @@ export function useNeko(): UseNekoReturn {
   const connect = useCallback(async (config: NekoConfig) => {
     if (!clientRef.current) return;
     
-    setState(prev => ({ ...prev, connecting: true, error: null }));
+    setState(prev => ({ ...prev, error: null }));
     
     try {
       await clientRef.current.connect(config);
     } catch (error) {
       setState(prev => ({ 
         ...prev, 
-        connecting: false, 
         error: error instanceof Error ? error.message : 'Connection failed' 
       }));
       throw error;
@@ -82,14 +229,17 @@ export function useNeko(): UseNekoReturn {
   const disconnect = useCallback(async () => {
     if (!clientRef.current) return;
     await clientRef.current.disconnect();
-    setState({
-      connected: false,
-      connecting: false,
-      controlling: false,
-      videoWidth: 1280,
-      videoHeight: 720,
-      error: null,
-    });
+    setState(clientRef.current.getState());
+  }, []);
+  
+  const retryNow = useCallback(() => {
+    clientRef.current?.retryNow();
+  }, []);
+  
+  const cancelReconnect = useCallback(async () => {
+    if (!clientRef.current) return;
+    await clientRef.current.cancelReconnect();
+    setState(clientRef.current.getState());
   }, []);
   
   const requestControl = useCallback(() => {
@@ -98,7 +248,159 @@ export function useNeko(): UseNekoReturn {
   
   const releaseControl = useCallback(() => {
     clientRef.current?.releaseControl();
-    setState(prev => ({ ...prev, controlling: false }));
+    setState(prev => ({ ...prev, controlling: false, controllerId: null }));
+  }, []);
+  
+  const giveControl = useCallback((memberId: string) => {
+    clientRef.current?.giveControl(memberId);
+  }, []);
+  
+  const acceptControlRequest = useCallback((memberId: string) => {
+    clientRef.current?.acceptControlRequest(memberId);
+  }, []);
+  
+  const denyControlRequest = useCallback((memberId: string) => {
+    clientRef.current?.denyControlRequest(memberId);
+  }, []);
+  
+  const lockRoom = useCallback(() => {
+    clientRef.current?.lockRoom();
+  }, []);
+  
+  const unlockRoom = useCallback(() => {
+    clientRef.current?.unlockRoom();
+  }, []);
+  
+  const forceControl = useCallback(() => {
+    clientRef.current?.forceControl();
+  }, []);
+  
+  const forceRelease = useCallback(() => {
+    clientRef.current?.forceRelease();
+  }, []);
+  
+  const kickMember = useCallback((memberId: string) => {
+    clientRef.current?.kickMember(memberId);
+  }, []);
+  
+  const muteMember = useCallback((memberId: string) => {
+    clientRef.current?.muteMember(memberId);
+  }, []);
+  
+  const unmuteMember = useCallback((memberId: string) => {
+    clientRef.current?.unmuteMember(memberId);
+  }, []);
+  
+  const sendClipboard = useCallback((text: string) => {
+    clientRef.current?.sendClipboard(text);
+  }, []);
+  
+  const syncLocalClipboard = useCallback(() => {
+    clientRef.current?.syncLocalClipboard();
+  }, []);
+  
+  const requestScreenConfigurations = useCallback(() => {
+    clientRef.current?.requestScreenConfigurations();
+  }, []);
+  
+  const setScreenResolution = useCallback((width: number, height: number, rate: number) => {
+    clientRef.current?.setScreenResolution(width, height, rate);
+  }, []);
+  
+  const setMatchWindow = useCallback((enabled: boolean) => {
+    clientRef.current?.setMatchWindow(enabled);
+    setState(prev => ({ ...prev, matchWindow: enabled }));
+  }, []);
+  
+  const setMatchWindowSize = useCallback((width: number, height: number) => {
+    clientRef.current?.setMatchWindowSize(width, height);
+  }, []);
+  
+  const setVolume = useCallback((volume: number) => {
+    clientRef.current?.setVolume(volume);
+  }, []);
+  
+  const setAudioMuted = useCallback((muted: boolean) => {
+    clientRef.current?.setAudioMuted(muted);
+  }, []);
+  
+  const unlockAudio = useCallback(() => {
+    clientRef.current?.unlockAudio();
+  }, []);
+  
+  const setStatsEnabled = useCallback((enabled: boolean) => {
+    clientRef.current?.setStatsEnabled(enabled);
+    setState(prev => ({ ...prev, statsEnabled: enabled }));
+  }, []);
+  
+  const setKeyboardLayout = useCallback((layout: KeyboardLayout) => {
+    clientRef.current?.setKeyboardLayout(layout);
+  }, []);
+  
+  const setPointerLock = useCallback((enabled: boolean) => {
+    clientRef.current?.setPointerLock(enabled);
+    setState(prev => ({ ...prev, pointerLock: enabled }));
+  }, []);
+  
+  const setCursorPrediction = useCallback((enabled: boolean) => {
+    clientRef.current?.setCursorPrediction(enabled);
+    setState(prev => ({ ...prev, cursorPrediction: enabled }));
+    saveSettings({ cursorPrediction: enabled });
+  }, []);
+  
+  const setLaserPointer = useCallback((enabled: boolean) => {
+    clientRef.current?.setLaserPointer(enabled);
+    setState(prev => ({ ...prev, laserPointer: enabled }));
+  }, []);
+  
+  const sharePointer = useCallback((x: number, y: number) => {
+    clientRef.current?.sharePointer(x, y);
+  }, []);
+  
+  const hidePointer = useCallback(() => {
+    clientRef.current?.hidePointer();
+  }, []);
+  
+  const sendChatMessage = useCallback((content: string) => {
+    clientRef.current?.sendChatMessage(content);
+  }, []);
+  
+  const uploadFile = useCallback((file: File) => {
+    clientRef.current?.uploadFile(file);
+  }, []);
+  
+  const cancelUpload = useCallback((id: string) => {
+    clientRef.current?.cancelUpload(id);
+  }, []);
+  
+  const dismissUpload = useCallback((id: string) => {
+    clientRef.current?.dismissUpload(id);
+  }, []);
+  
+  const fetchDownload = useCallback(async (id: string) => {
+    if (!clientRef.current) throw new Error('Not connected');
+    return clientRef.current.fetchDownload(id);
+  }, []);
+  
+  const deleteDownload = useCallback((id: string) => {
+    clientRef.current?.deleteDownload(id);
+  }, []);
+  
+  const setReleaseHotkey = useCallback((chord: HotkeyChord | null) => {
+    clientRef.current?.setReleaseHotkey(chord);
+    setState(prev => ({ ...prev, releaseHotkey: chord }));
+    saveSettings({ releaseHotkey: chord });
+  }, []);
+  
+  const setRemapProfiles = useCallback((profiles: KeyRemapProfile[], activeId: string | null) => {
+    if (!clientRef.current) return;
+    clientRef.current.setRemapProfiles(profiles, activeId);
+    const { remapProfiles, remapProfileId } = clientRef.current.getState();
+    setState(prev => ({ ...prev, remapProfiles, remapProfileId }));
+    saveSettings({
+      remapProfiles: remapProfiles.filter(profile => !profile.builtin),
+      remapProfileId,
+    });
   }, []);
   
   const setVideoElement = useCallback((element: HTMLVideoElement | null) => {
@@ -111,6 +413,10 @@ export function useNeko(): UseNekoReturn {
     clientRef.current?.sendMouseMove(x, y);
   }, []);
   
+  const sendMouseMoveRelative = useCallback((deltaX: number, deltaY: number) => {
+    clientRef.current?.sendMouseMoveRelative(deltaX, deltaY);
+  }, []);
+  
   const sendMouseScroll = useCallback((deltaX: number, deltaY: number) => {
     clientRef.current?.sendMouseScroll(deltaX, deltaY);
   }, []);
@@ -123,16 +429,73 @@ export function useNeko(): UseNekoReturn {
     clientRef.current?.sendKeyEvent(event, pressed);
   }, []);
   
+  const sendKeysym = useCallback((keysym: number, pressed: boolean) => {
+    clientRef.current?.sendKeysym(keysym, pressed);
+  }, []);
+  
+  const sendText = useCallback((text: string) => {
+    clientRef.current?.sendText(text);
+  }, []);
+  
+  const releaseInputs = useCallback(() => {
+    clientRef.current?.releaseInputs();
+  }, []);
+  
+  const releaseButtons = useCallback(() => {
+    clientRef.current?.releaseButtons();
+  }, []);
+  
   return {
     state,
     connect,
     disconnect,
+    retryNow,
+    cancelReconnect,
     requestControl,
     releaseControl,
+    giveControl,
+    acceptControlRequest,
+    denyControlRequest,
+    lockRoom,
+    unlockRoom,
+    forceControl,
+    forceRelease,
+    kickMember,
+    muteMember,
+    unmuteMember,
+    sendClipboard,
+    syncLocalClipboard,
+    requestScreenConfigurations,
+    setScreenResolution,
+    setMatchWindow,
+    setMatchWindowSize,
+    setVolume,
+    setAudioMuted,
+    unlockAudio,
+    setStatsEnabled,
+    setKeyboardLayout,
+    setPointerLock,
+    setCursorPrediction,
+    setLaserPointer,
+    sharePointer,
+    hidePointer,
+    sendChatMessage,
+    uploadFile,
+    cancelUpload,
+    dismissUpload,
+    fetchDownload,
+    deleteDownload,
+    setReleaseHotkey,
+    setRemapProfiles,
     setVideoElement,
     sendMouseMove,
+    sendMouseMoveRelative,
     sendMouseScroll,
     sendMouseButton,
     sendKeyEvent,
+    sendKeysym,
+    sendText,
+    releaseInputs,
+    releaseButtons,
   };
 }
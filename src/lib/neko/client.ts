@@ -1,8 +1,110 @@
 // Neko WebRTC Client
 // Handles WebSocket signaling and WebRTC connection to Neko server
 
-import type { NekoConfig, NekoState, NekoEvents, SignalProvide, SignalCandidate, ScreenResolution } from './types';
-import { encodeMouseMove, encodeMouseScroll, encodeMouseButton, encodeKey, getKeysym, getMouseButton } from './protocol';
+import type {
+  NekoConfig,
+  NekoPhase,
+  KeyboardLayout,
+  HotkeyChord,
+  KeyRemapProfile,
+  ReconnectPolicy,
+  NekoState,
+  NekoEvents,
+  NekoMember,
+  SignalProvide,
+  SignalCandidate,
+  SignalRestart,
+  ScreenResolution,
+  ScreenConfiguration,
+  ScreenConfigurations,
+  MemberPayload,
+  MemberList,
+  MemberConnected,
+  MemberDisconnected,
+  ControlGive,
+  ControlRequesting,
+  ControlClipboard,
+  AdminAction,
+  AdminTargetAction,
+  CursorImageMessage,
+  CursorPosition,
+  MemberPointer,
+  PresencePointer,
+  ChatEntry,
+  ChatMessage,
+  FileUpload,
+  UploadProgress,
+  UploadDone,
+  UploadError,
+  RemoteDownload,
+  DownloadList,
+  DownloadProgress,
+} from './types';
+import { encodeMouseMove, encodeMouseMoveRelative, encodeMouseScroll, encodeMouseButton, encodeKey, getCharKeysym, getKeysym, getMouseButton, KEYSYM_MAP } from './protocol';
+import { KEYBOARD_LAYOUTS, US_LAYOUT, getLayoutMap, layoutFromMap, matchLayout, type LayoutTable } from './layouts';
+import { canTransition, isAttemptPhase, isConnectingPhase } from './phase';
+import { getReconnectDelay, resolveReconnectPolicy } from './reconnect';
+import { computeStats, type StatsSnapshot } from './stats';
+import { findClosestMode, type ScreenMode } from './resolution';
+import { DEFAULT_RELEASE_HOTKEY, findRemapProfile, matchesChord } from './hotkeys';
+import { POINTER_INTERVAL } from './presence';
+import { DOWNLOAD_MAX_SIZE, UPLOAD_CHUNK_SIZE, UPLOAD_MAX_SIZE, UPLOAD_WINDOW, encodeBase64, formatBytes } from './upload';
+
+const CHAT_HISTORY_LIMIT = 500;
+export const CHAT_MAX_LENGTH = 1000;
+
+// An attempt must reach 'connected' within this long
+export const CONNECT_TIMEOUT = 10000;
+
+const STATS_INTERVAL = 1000;
+const STATS_HISTORY_LENGTH = 60;
+
+// Initial client state, shared with the React hook
+export function createInitialState(): NekoState {
+  return {
+    phase: 'idle',
+    reconnectAttempt: 0,
+    nextRetryAt: null,
+    iceRestarting: false,
+    connected: false,
+    connecting: false,
+    controlling: false,
+    videoWidth: 1280,
+    videoHeight: 720,
+    videoRate: 30,
+    screenConfigurations: [],
+    error: null,
+    memberId: null,
+    members: [],
+    controllerId: null,
+    controlPending: false,
+    controlRequests: [],
+    locked: false,
+    clipboard: '',
+    volume: 1,
+    audioMuted: false,
+    autoplayBlocked: false,
+    statsEnabled: false,
+    stats: null,
+    statsHistory: [],
+    pointerLock: false,
+    matchWindow: false,
+    keyboardLayout: 'auto',
+    detectedLayout: null,
+    releaseHotkey: DEFAULT_RELEASE_HOTKEY,
+    remapProfiles: [],
+    remapProfileId: null,
+    cursorImage: null,
+    cursorPosition: null,
+    cursorPrediction: true,
+    pointers: {},
+    laserPointer: false,
+    chat: [],
+    uploads: [],
+    downloads: [],
+    downloadProgress: {},
+  };
+}
 
 export class NekoClient {
   private config: NekoConfig | null = null;
@@ -10,20 +112,44 @@ export class NekoClient {
   private pc: RTCPeerConnection | null = null;
   private dataChannel: RTCDataChannel | null = null;
   private videoElement: HTMLVideoElement | null = null;
+  private stream: MediaStream | null = null;
   private events: NekoEvents = {};
   
-  private state: NekoState = {
-    connected: false,
-    connecting: false,
-    controlling: false,
-    videoWidth: 1280,
-    videoHeight: 720,
-    error: null,
-  };
+  private state: NekoState = createInitialState();
   
-  private memberId: string = '';
-  private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
+  // Join/leave events are only emitted once the initial roster is known
+  private membersLoaded = false;
+  private reconnectPolicy: ReconnectPolicy = resolveReconnectPolicy();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private connectTimer: ReturnType<typeof setTimeout> | null = null;
+  private iceGraceTimer: ReturnType<typeof setTimeout> | null = null;
+  private iceRestartTimer: ReturnType<typeof setTimeout> | null = null;
+  private statsTimer: ReturnType<typeof setInterval> | null = null;
+  private statsSnapshot: StatsSnapshot | null = null;
+  // Keysym sent on keydown per physical key, so the keyup matches even if
+  // modifiers changed in between (Shift+1 pressed as '!', released as '1')
+  private pressedKeysyms = new Map<string, number>();
+  // X11 buttons currently held on the remote
+  private pressedButtons = new Set<number>();
+  private layoutTable: LayoutTable = US_LAYOUT;
+  // Physical key substitutions of the active remap profile
+  private remap: Record<string, string> = {};
+  // "Match my window": the latest local size in device pixels, and the mode
+  // to go back to once we stop matching
+  private matchWindowSize: { width: number; height: number } | null = null;
+  private matchWindowRestore: ScreenMode | null = null;
+  // Pointer sharing is throttled; the latest position waits for the next slot
+  private pointerTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingPointer: { x: number; y: number } | null = null;
+  private pointerSentAt = 0;
+  private chatSeq = 0;
+  // Download notifications start once the initial list is known
+  private downloadsLoaded = false;
+  private downloadToken: string | null = null;
+  // Files still being sent, with how far chunks have gone out
+  private uploadFiles = new Map<string, { file: File; offset: number; reading: boolean }>();
+  // Downloads being fetched, so ending the session can stop them
+  private downloadFetches = new Map<string, AbortController>();
   
   constructor(events?: NekoEvents) {
     this.events = events || {};
@@ -37,32 +163,60 @@ export class NekoClient {
   // Set video element for stream output
   setVideoElement(element: HTMLVideoElement) {
     this.videoElement = element;
+    this.applyVolume();
     
     // If we already have a stream, attach it
     if (this.pc) {
-      const receivers = this.pc.getReceivers();
-      const videoReceiver = receivers.find(r => r.track?.kind === 'video');
-      if (videoReceiver?.track) {
-        this.attachStream(videoReceiver.track);
+      for (const receiver of this.pc.getReceivers()) {
+        if (receiver.track) {
+          this.attachTrack(receiver.track);
+        }
       }
     }
   }
   
+  // Move the connection state machine, keeping the derived flags in sync
+  private transition(phase: NekoPhase): void {
+    const previous = this.state.phase;
+    if (previous === phase) return;
+    
+    if (!canTransition(previous, phase)) {
+      console.warn(`[Neko] Ignoring invalid transition ${previous} -> ${phase}`);
+      return;
+    }
+    
+    this.state.phase = phase;
+    this.state.connected = phase === 'connected';
+    this.state.connecting = isConnectingPhase(phase);
+    if (!isAttemptPhase(phase)) {
+      this.clearConnectTimer();
+    }
+    if (phase !== 'connected') {
+      this.releaseInputs();
+      this.state.controlling = false;
+    }
+    
+    console.log(`[Neko] Phase: ${previous} -> ${phase}`);
+    this.events.onPhaseChange?.(phase, previous);
+  }
+  
   // Connect to Neko server
   async connect(config: NekoConfig): Promise<void> {
-    if (this.state.connecting || this.state.connected) {
+    if (this.state.phase !== 'idle' && this.state.phase !== 'closed' && this.state.phase !== 'failed') {
       await this.disconnect();
     }
     
     this.config = config;
-    this.state.connecting = true;
+    this.reconnectPolicy = resolveReconnectPolicy(config.reconnect);
+    this.attachNetworkListeners();
     this.state.error = null;
-    this.reconnectAttempts = 0;
+    this.setReconnect(0, null);
     
     try {
       await this.establishConnection();
     } catch (error) {
-      this.state.connecting = false;
+      this.cleanup();
+      this.transition('failed');
       this.state.error = error instanceof Error ? error.message : 'Connection failed';
       this.events.onError?.(this.state.error);
       throw error;
@@ -72,14 +226,32 @@ export class NekoClient {
   private async establishConnection(): Promise<void> {
     if (!this.config) throw new Error('No config provided');
     
+    this.transition('signaling');
+    
     // Parse URL and create WebSocket connection
     const wsUrl = this.buildWebSocketUrl(this.config.url);
     
     return new Promise((resolve, reject) => {
+      let settled = false;
+      
+      // Covers every phase before 'connected': once the offer is answered the
+      // promise has resolved, so a stalled negotiation ends as a disconnect
+      this.clearConnectTimer();
+      this.connectTimer = setTimeout(() => {
+        this.connectTimer = null;
+        if (!isAttemptPhase(this.state.phase)) return;
+        if (settled) {
+          this.handleDisconnect('Connection timeout');
+        } else {
+          reject(new Error('Connection timeout'));
+        }
+      }, CONNECT_TIMEOUT);
+      
       this.ws = new WebSocket(wsUrl);
       
       this.ws.onopen = () => {
         console.log('[Neko] WebSocket connected');
+        this.transition('authenticating');
         // Send authentication if password provided
         if (this.config?.password) {
           this.send({
@@ -96,6 +268,7 @@ export class NekoClient {
           await this.handleMessage(message);
           
           if (message.event === 'signal/provide') {
+            settled = true;
             resolve();
           }
         } catch (error) {
@@ -111,18 +284,29 @@ export class NekoClient {
       
       this.ws.onclose = (event) => {
         console.log('[Neko] WebSocket closed:', event.code, event.reason);
-        this.handleDisconnect(event.reason || 'Connection closed');
+        const reason = event.reason || 'Connection closed';
+        reject(new Error(reason));
+        this.handleDisconnect(reason);
       };
-      
-      // Timeout after 10 seconds
-      setTimeout(() => {
-        if (this.state.connecting && !this.state.connected) {
-          reject(new Error('Connection timeout'));
-        }
-      }, 10000);
     });
   }
   
+  private clearConnectTimer(): void {
+    if (this.connectTimer) {
+      clearTimeout(this.connectTimer);
+      this.connectTimer = null;
+    }
+  }
+  
+  // HTTP(S) address of a path on the server the WebSocket connects to
+  private buildHttpUrl(path: string): string | null {
+    if (!this.config) return null;
+    const base = this.buildWebSocketUrl(this.config.url)
+      .replace(/^ws/, 'http')
+      .replace(/\/ws$/, '');
+    return base + path;
+  }
+  
   private buildWebSocketUrl(url: string): string {
     // Remove trailing slash
     let cleanUrl = url.replace(/\/$/, '');
@@ -157,23 +341,100 @@ export class NekoClient {
         await this.handleSignalCandidate(message as unknown as SignalCandidate);
         break;
         
+      case 'signal/restart':
+        await this.handleSignalRestart(message as unknown as SignalRestart);
+        break;
+        
       case 'member/identity':
-        this.memberId = message.id as string;
-        console.log('[Neko] Member ID:', this.memberId);
+        this.state.memberId = message.id as string;
+        console.log('[Neko] Member ID:', this.state.memberId);
+        this.events.onIdentity?.(this.state.memberId);
+        break;
+        
+      case 'member/list':
+        this.handleMemberList(message as unknown as MemberList);
+        break;
+        
+      case 'member/connected':
+        this.handleMemberConnected(message as unknown as MemberConnected);
+        break;
+        
+      case 'member/disconnected':
+        this.handleMemberDisconnected(message as unknown as MemberDisconnected);
         break;
         
       case 'screen/resolution':
         this.handleScreenResolution(message as unknown as ScreenResolution);
         break;
         
+      case 'screen/configurations':
+        this.handleScreenConfigurations(message as unknown as ScreenConfigurations);
+        break;
+        
       case 'control/give':
-        this.state.controlling = true;
-        this.events.onControlGranted?.();
+        this.handleControlGive(message as unknown as ControlGive);
         break;
         
       case 'control/release':
-        this.state.controlling = false;
-        this.events.onControlReleased?.();
+        this.handleControlRelease();
+        break;
+        
+      case 'control/requesting':
+        this.handleControlRequesting(message as unknown as ControlRequesting);
+        break;
+        
+      case 'control/deny':
+        this.setControlPending(false);
+        this.events.onControlDenied?.();
+        break;
+        
+      case 'control/clipboard':
+        this.handleClipboard(message as unknown as ControlClipboard);
+        break;
+        
+      case 'admin/lock':
+      case 'admin/unlock':
+      case 'admin/control':
+      case 'admin/release':
+        this.handleAdminAction(message as unknown as AdminAction);
+        break;
+        
+      case 'admin/kick':
+      case 'admin/mute':
+      case 'admin/unmute':
+        this.handleAdminTargetAction(message as unknown as AdminTargetAction);
+        break;
+        
+      case 'cursor/image':
+        this.handleCursorImage(message as unknown as CursorImageMessage);
+        break;
+        
+      case 'cursor/position':
+        this.handleCursorPosition(message as unknown as CursorPosition);
+        break;
+        
+      case 'presence/pointer':
+        this.handlePresencePointer(message as unknown as PresencePointer);
+        break;
+        
+      case 'chat/message':
+        this.handleChatMessage(message as unknown as ChatMessage);
+        break;
+        
+      case 'upload/progress':
+        this.handleUploadProgress(message as unknown as UploadProgress);
+        break;
+        
+      case 'upload/done':
+        this.handleUploadDone(message as unknown as UploadDone);
+        break;
+        
+      case 'upload/error':
+        this.handleUploadError(message as unknown as UploadError);
+        break;
+        
+      case 'download/list':
+        this.handleDownloadList(message as unknown as DownloadList);
         break;
         
       default:
@@ -183,6 +444,7 @@ export class NekoClient {
   
   private async handleSignalProvide(signal: SignalProvide): Promise<void> {
     console.log('[Neko] Received SDP offer');
+    this.transition('negotiating');
     
     // Create peer connection with provided ICE servers
     const iceServers = signal.iceServers || [{ urls: 'stun:stun.l.google.com:19302' }];
@@ -202,9 +464,7 @@ export class NekoClient {
     // Handle incoming tracks (video/audio)
     this.pc.ontrack = (event) => {
       console.log('[Neko] Received track:', event.track.kind);
-      if (event.track.kind === 'video') {
-        this.attachStream(event.track);
-      }
+      this.attachTrack(event.track);
     };
     
     // Handle data channel
@@ -220,17 +480,40 @@ export class NekoClient {
       
       switch (this.pc?.connectionState) {
         case 'connected':
-          this.state.connected = true;
-          this.state.connecting = false;
-          this.events.onConnected?.();
+          this.clearIceRestart();
+          if (this.state.phase !== 'connected') {
+            this.setReconnect(0, null);
+            this.transition('connected');
+            this.events.onConnected?.();
+          }
           break;
         case 'disconnected':
+          // Often transient (e.g. Wi-Fi hiccup): give ICE a chance to recover
+          if (!this.iceGraceTimer && !this.state.iceRestarting) {
+            this.iceGraceTimer = setTimeout(() => {
+              this.iceGraceTimer = null;
+              this.restartIce();
+            }, this.reconnectPolicy.iceGracePeriod);
+          }
+          break;
         case 'failed':
-          this.handleDisconnect('WebRTC connection failed');
+          if (this.state.iceRestarting) {
+            this.handleDisconnect('ICE restart failed');
+          } else {
+            this.restartIce();
+          }
           break;
       }
     };
     
+    // An ICE restart can recover the transport without the overall
+    // connection state ever leaving 'connected', so watch ICE itself too
+    this.pc.oniceconnectionstatechange = () => {
+      if (this.state.iceRestarting && this.isIceConnected()) {
+        this.clearIceRestart();
+      }
+    };
+    
     // Set remote description (offer)
     await this.pc.setRemoteDescription({
       type: 'offer',
@@ -247,6 +530,108 @@ export class NekoClient {
     });
   }
   
+  // Answer the server's ICE restart offer on the existing peer connection
+  private async handleSignalRestart(signal: SignalRestart): Promise<void> {
+    if (!this.pc) return;
+    
+    console.log('[Neko] Received ICE restart offer');
+    
+    try {
+      await this.pc.setRemoteDescription({ type: 'offer', sdp: signal.sdp });
+      const answer = await this.pc.createAnswer();
+      await this.pc.setLocalDescription(answer);
+      
+      this.send({
+        event: 'signal/answer',
+        sdp: answer.sdp,
+      });
+      
+      // Candidates may already have been checked by the time the answer is set
+      if (this.isIceConnected()) {
+        this.clearIceRestart();
+      }
+    } catch (error) {
+      console.error('[Neko] ICE restart negotiation failed:', error);
+      this.handleDisconnect('ICE restart failed');
+    }
+  }
+  
+  // Recover the media path without tearing down the session; falls back to
+  // a full reconnect if signaling is gone or the restart does not complete
+  private restartIce(): void {
+    if (this.iceGraceTimer) {
+      clearTimeout(this.iceGraceTimer);
+      this.iceGraceTimer = null;
+    }
+    if (this.state.iceRestarting) return;
+    
+    if (this.state.phase !== 'connected' || this.ws?.readyState !== WebSocket.OPEN) {
+      this.handleDisconnect('WebRTC connection lost');
+      return;
+    }
+    
+    console.log('[Neko] Attempting ICE restart');
+    this.setIceRestarting(true);
+    this.send({ event: 'signal/restart' });
+    
+    this.iceRestartTimer = setTimeout(() => {
+      this.iceRestartTimer = null;
+      // The media path is up even if no ICE event told us so
+      if (this.pc?.connectionState === 'connected') {
+        this.clearIceRestart();
+        return;
+      }
+      this.handleDisconnect('ICE restart timed out');
+    }, this.reconnectPolicy.iceRestartTimeout);
+  }
+  
+  private isIceConnected(): boolean {
+    const state = this.pc?.iceConnectionState;
+    return state === 'connected' || state === 'completed';
+  }
+  
+  private clearIceRestart(): void {
+    if (this.iceGraceTimer) {
+      clearTimeout(this.iceGraceTimer);
+      this.iceGraceTimer = null;
+    }
+    if (this.iceRestartTimer) {
+      clearTimeout(this.iceRestartTimer);
+      this.iceRestartTimer = null;
+    }
+    this.setIceRestarting(false);
+  }
+  
+  private setIceRestarting(restarting: boolean): void {
+    if (this.state.iceRestarting === restarting) return;
+    this.state.iceRestarting = restarting;
+    this.events.onIceRestarting?.(restarting);
+  }
+  
+  // A new network path makes existing ICE candidates stale
+  private handleNetworkChange = (): void => {
+    if (!navigator.onLine) return;
+    
+    if (this.state.phase === 'connected') {
+      console.log('[Neko] Network changed');
+      this.restartIce();
+    } else if (this.state.phase === 'reconnecting') {
+      this.retryNow();
+    }
+  };
+  
+  private attachNetworkListeners(): void {
+    window.addEventListener('online', this.handleNetworkChange);
+    (navigator as Navigator & { connection?: EventTarget }).connection
+      ?.addEventListener('change', this.handleNetworkChange);
+  }
+  
+  private detachNetworkListeners(): void {
+    window.removeEventListener('online', this.handleNetworkChange);
+    (navigator as Navigator & { connection?: EventTarget }).connection
+      ?.removeEventListener('change', this.handleNetworkChange);
+  }
+  
   private async handleSignalCandidate(signal: SignalCandidate): Promise<void> {
     if (this.pc && signal.candidate) {
       try {
@@ -257,18 +642,481 @@ export class NekoClient {
     }
   }
   
+  private toMember(payload: MemberPayload): NekoMember {
+    return {
+      id: payload.id,
+      displayName: payload.displayname || 'Anonymous',
+      admin: !!payload.admin,
+      muted: !!payload.muted,
+    };
+  }
+  
+  private setMembers(members: NekoMember[]): void {
+    this.state.members = members;
+    this.events.onMembersChanged?.(members);
+  }
+  
+  private handleMemberList(list: MemberList): void {
+    const members = (list.members || []).map(m => this.toMember(m));
+    const previous = this.state.members;
+    const wasLoaded = this.membersLoaded;
+    
+    this.membersLoaded = true;
+    this.setMembers(members);
+    
+    if (!wasLoaded) return;
+    
+    for (const member of members) {
+      if (!previous.some(m => m.id === member.id)) {
+        this.memberJoined(member);
+      }
+    }
+    for (const member of previous) {
+      if (!members.some(m => m.id === member.id)) {
+        this.memberLeft(member);
+      }
+    }
+    
+    this.setControlRequests(
+      this.state.controlRequests.filter(id => members.some(m => m.id === id))
+    );
+    for (const id of Object.keys(this.state.pointers)) {
+      if (!members.some(m => m.id === id)) {
+        this.removePointer(id);
+      }
+    }
+  }
+  
+  private handleMemberConnected(payload: MemberConnected): void {
+    const member = this.toMember(payload);
+    const exists = this.state.members.some(m => m.id === member.id);
+    
+    this.setMembers(exists
+      ? this.state.members.map(m => (m.id === member.id ? member : m))
+      : [...this.state.members, member]);
+    
+    if (!exists) {
+      this.memberJoined(member);
+    }
+  }
+  
+  private handleMemberDisconnected(payload: MemberDisconnected): void {
+    const member = this.state.members.find(m => m.id === payload.id);
+    if (!member) return;
+    
+    this.setMembers(this.state.members.filter(m => m.id !== payload.id));
+    this.setControlRequests(this.state.controlRequests.filter(id => id !== payload.id));
+    this.removePointer(payload.id);
+    this.memberLeft(member);
+    
+    if (this.state.controllerId === member.id) {
+      this.setController(null);
+    }
+  }
+  
+  private memberJoined(member: NekoMember): void {
+    this.addSystemMessage(`${member.displayName} joined`);
+    this.events.onMemberJoined?.(member);
+  }
+  
+  private memberLeft(member: NekoMember): void {
+    this.addSystemMessage(`${member.displayName} left`);
+    this.events.onMemberLeft?.(member);
+  }
+  
+  private memberName(id: string | null | undefined): string {
+    return this.state.members.find(m => m.id === id)?.displayName ?? 'Someone';
+  }
+  
+  private setController(id: string | null): void {
+    if (this.state.controllerId === id) return;
+    this.state.controllerId = id;
+    this.events.onControllerChanged?.(id);
+  }
+  
+  // The server sends control/give without an id to the new controller and
+  // broadcasts it with the controller's id to everyone else
+  private handleControlGive(message: ControlGive): void {
+    const controllerId = message.id ?? this.state.memberId;
+    const isSelf = !message.id || message.id === this.state.memberId;
+    
+    if (controllerId !== this.state.controllerId) {
+      this.addSystemMessage(isSelf ? 'You are now in control' : `${this.memberName(controllerId)} is now in control`);
+    }
+    this.setController(controllerId);
+    
+    // Pending requests were addressed to the previous controller, and the
+    // server drops its queue on every handoff, ours included
+    this.setControlRequests([]);
+    this.setControlPending(false);
+    
+    if (isSelf) {
+      this.state.controlling = true;
+      this.events.onControlGranted?.();
+      this.syncLocalClipboard();
+      this.applyMatchWindow();
+    } else if (this.state.controlling) {
+      this.forgetControlState();
+      this.state.controlling = false;
+      this.events.onControlReleased?.();
+    }
+  }
+  
+  private handleControlRelease(): void {
+    if (this.state.controllerId) {
+      this.addSystemMessage('Control was released');
+    }
+    this.forgetControlState();
+    this.state.controlling = false;
+    this.setController(null);
+    this.setControlPending(false);
+    this.setControlRequests([]);
+    this.events.onControlReleased?.();
+  }
+  
+  private setControlPending(pending: boolean): void {
+    if (this.state.controlPending === pending) return;
+    this.state.controlPending = pending;
+    this.events.onControlPending?.(pending);
+  }
+  
+  private setControlRequests(ids: string[]): void {
+    if (ids.length === this.state.controlRequests.length
+      && ids.every((id, i) => id === this.state.controlRequests[i])) return;
+    this.state.controlRequests = ids;
+    this.events.onControlRequestsChanged?.(ids);
+  }
+  
+  private handleControlRequesting(message: ControlRequesting): void {
+    // Our own request is waiting for the controller to respond
+    if (!message.id || message.id === this.state.memberId) {
+      this.setControlPending(true);
+      return;
+    }
+    
+    if (this.state.controlRequests.includes(message.id)) return;
+    
+    this.setControlRequests([...this.state.controlRequests, message.id]);
+    
+    const member = this.state.members.find(m => m.id === message.id)
+      ?? { id: message.id, displayName: 'Someone', admin: false, muted: false };
+    this.events.onControlRequested?.(member);
+  }
+  
+  private handleClipboard(message: ControlClipboard): void {
+    const text = message.text ?? '';
+    if (text === this.state.clipboard) return;
+    
+    this.state.clipboard = text;
+    this.events.onClipboard?.(text);
+    
+    // Mirror into the local clipboard; browsers refuse this without focus
+    // or permission, in which case the text is still available in state
+    navigator.clipboard?.writeText(text).catch(() => {});
+  }
+  
+  private handleAdminAction(message: AdminAction): void {
+    switch (message.event) {
+      case 'admin/lock':
+      case 'admin/unlock': {
+        const locked = message.event === 'admin/lock';
+        if (this.state.locked === locked) return;
+        this.state.locked = locked;
+        this.events.onLockChanged?.(locked);
+        break;
+      }
+        
+      // Forced control changes behave like their regular counterparts
+      case 'admin/control':
+        this.handleControlGive({ event: 'control/give', id: message.id });
+        break;
+        
+      case 'admin/release':
+        this.handleControlRelease();
+        break;
+    }
+  }
+  
+  private handleAdminTargetAction(message: AdminTargetAction): void {
+    if (message.event === 'admin/kick') {
+      if (message.target === this.state.memberId) {
+        // Prevent the upcoming close from triggering an auto-reconnect
+        console.log('[Neko] Kicked by admin');
+        this.config = null;
+      }
+      return;
+    }
+    
+    const muted = message.event === 'admin/mute';
+    this.setMembers(this.state.members.map(m => (
+      m.id === message.target ? { ...m, muted } : m
+    )));
+  }
+  
   private handleScreenResolution(resolution: ScreenResolution): void {
     this.state.videoWidth = resolution.width;
     this.state.videoHeight = resolution.height;
-    this.events.onResize?.(resolution.width, resolution.height);
+    this.state.videoRate = resolution.rate || this.state.videoRate;
+    this.events.onResize?.(resolution.width, resolution.height, this.state.videoRate);
+  }
+  
+  private handleCursorImage(message: CursorImageMessage): void {
+    const { uri, width = 0, height = 0, x = 0, y = 0 } = message;
+    this.state.cursorImage = uri ? { uri, width, height, x, y } : null;
+    this.events.onCursorImage?.(this.state.cursorImage);
+  }
+  
+  private handleCursorPosition(message: CursorPosition): void {
+    this.state.cursorPosition = { x: message.x, y: message.y };
+    this.events.onCursorPosition?.(this.state.cursorPosition);
   }
   
-  private attachStream(track: MediaStreamTrack): void {
-    if (this.videoElement) {
-      const stream = new MediaStream([track]);
-      this.videoElement.srcObject = stream;
-      this.videoElement.play().catch(console.error);
+  private handlePresencePointer(message: PresencePointer): void {
+    if (!message.id || message.id === this.state.memberId) return;
+    
+    if (typeof message.x !== 'number' || typeof message.y !== 'number') {
+      this.removePointer(message.id);
+      return;
     }
+    this.setPointers({
+      ...this.state.pointers,
+      [message.id]: { x: message.x, y: message.y, laser: !!message.laser },
+    });
+  }
+  
+  private removePointer(id: string): void {
+    if (!(id in this.state.pointers)) return;
+    const { [id]: _removed, ...pointers } = this.state.pointers;
+    this.setPointers(pointers);
+  }
+  
+  private setPointers(pointers: Record<string, MemberPointer>): void {
+    this.state.pointers = pointers;
+    this.events.onPointersChanged?.(pointers);
+  }
+  
+  private handleChatMessage(message: ChatMessage): void {
+    if (typeof message.content !== 'string' || !message.content) return;
+    
+    this.addChatEntry({
+      kind: 'message',
+      memberId: message.id ?? null,
+      displayName: this.memberName(message.id),
+      content: message.content,
+      self: message.id === this.state.memberId,
+    });
+  }
+  
+  private addSystemMessage(content: string): void {
+    this.addChatEntry({ kind: 'system', memberId: null, displayName: '', content, self: false });
+  }
+  
+  private addChatEntry(entry: Omit<ChatEntry, 'id' | 'time'>): void {
+    const chat = [...this.state.chat, { ...entry, id: ++this.chatSeq, time: Date.now() }];
+    this.state.chat = chat.slice(-CHAT_HISTORY_LIMIT);
+    this.events.onChat?.(this.state.chat);
+  }
+  
+  // The list and its token belong to one connection; transfers still running
+  // are stopped with `reason`, or as aborted when the session ends on purpose
+  private resetDownloads(reason?: Error): void {
+    this.downloadsLoaded = false;
+    this.downloadToken = null;
+    this.downloadFetches.forEach(controller => controller.abort(reason));
+    this.downloadFetches.clear();
+    this.state.downloads = [];
+    this.events.onDownloadsChanged?.([]);
+    this.state.downloadProgress = {};
+    this.events.onDownloadProgress?.({});
+  }
+  
+  private handleDownloadList(message: DownloadList): void {
+    const files = [...(message.files || [])].sort((a, b) => b.modified - a.modified);
+    const previous = this.state.downloads;
+    const wasLoaded = this.downloadsLoaded;
+    
+    this.downloadsLoaded = true;
+    this.downloadToken = message.token ?? this.downloadToken;
+    this.state.downloads = files;
+    this.events.onDownloadsChanged?.(files);
+    
+    if (!wasLoaded) return;
+    for (const file of files) {
+      if (!previous.some(f => f.id === file.id)) {
+        this.events.onDownloadAdded?.(file);
+      }
+    }
+  }
+  
+  private handleUploadProgress(message: UploadProgress): void {
+    if (!this.uploadFiles.has(message.id)) return;
+    this.updateUpload(message.id, { received: message.received });
+    this.pumpUpload(message.id);
+  }
+  
+  private handleUploadDone(message: UploadDone): void {
+    const entry = this.uploadFiles.get(message.id);
+    if (!entry) return;
+    this.uploadFiles.delete(message.id);
+    this.updateUpload(message.id, { status: 'done', received: entry.file.size, path: message.path });
+  }
+  
+  private handleUploadError(message: UploadError): void {
+    if (!this.uploadFiles.delete(message.id)) return;
+    this.updateUpload(message.id, { status: 'error', error: message.message || 'Upload failed' });
+  }
+  
+  // Send chunks until the window of unacknowledged data is full; called
+  // again on every acknowledgement
+  private async pumpUpload(id: string): Promise<void> {
+    const entry = this.uploadFiles.get(id);
+    if (!entry || entry.reading) return;
+    
+    entry.reading = true;
+    try {
+      while (this.uploadFiles.get(id) === entry && entry.offset < entry.file.size) {
+        const received = this.state.uploads.find(u => u.id === id)?.received ?? 0;
+        if (entry.offset - received >= UPLOAD_WINDOW * UPLOAD_CHUNK_SIZE) break;
+        
+        const end = Math.min(entry.offset + UPLOAD_CHUNK_SIZE, entry.file.size);
+        const data = encodeBase64(await entry.file.slice(entry.offset, end).arrayBuffer());
+        // Cancelled or failed while reading
+        if (this.uploadFiles.get(id) !== entry) break;
+        
+        this.send({ event: 'upload/chunk', id, offset: entry.offset, data });
+        entry.offset = end;
+      }
+    } catch (error) {
+      console.error('[Neko] Failed to read file:', error);
+      this.uploadFiles.delete(id);
+      this.send({ event: 'upload/cancel', id });
+      this.updateUpload(id, { status: 'error', error: 'Could not read the file' });
+    } finally {
+      entry.reading = false;
+    }
+  }
+  
+  private updateUpload(id: string, changes: Partial<FileUpload>): void {
+    this.setUploads(this.state.uploads.map(u => (u.id === id ? { ...u, ...changes } : u)));
+  }
+  
+  private setUploads(uploads: FileUpload[]): void {
+    this.state.uploads = uploads;
+    this.events.onUploadsChanged?.(uploads);
+  }
+  
+  private setDownloadProgress(id: string, progress: DownloadProgress | null): void {
+    const { [id]: _removed, ...rest } = this.state.downloadProgress;
+    this.state.downloadProgress = progress ? { ...rest, [id]: progress } : rest;
+    this.events.onDownloadProgress?.(this.state.downloadProgress);
+  }
+  
+  private handleScreenConfigurations(message: ScreenConfigurations): void {
+    const configurations: ScreenConfiguration[] = (message.configurations || [])
+      .map(c => ({ width: c.width, height: c.height, rates: [...(c.rates || [])].sort((a, b) => b - a) }))
+      .sort((a, b) => b.width * b.height - a.width * a.height);
+    
+    this.state.screenConfigurations = configurations;
+    this.events.onScreenConfigurations?.(configurations);
+    this.applyMatchWindow();
+  }
+  
+  private applyMatchWindow(): void {
+    if (!this.state.matchWindow || !this.state.controlling || !this.matchWindowSize) return;
+    
+    if (this.state.screenConfigurations.length === 0) {
+      this.requestScreenConfigurations();
+      return;
+    }
+    
+    const { videoWidth, videoHeight, videoRate } = this.state;
+    const mode = findClosestMode(
+      this.state.screenConfigurations,
+      this.matchWindowSize.width,
+      this.matchWindowSize.height,
+      videoRate
+    );
+    if (!mode || (mode.width === videoWidth && mode.height === videoHeight && mode.rate === videoRate)) return;
+    
+    if (!this.matchWindowRestore) {
+      this.matchWindowRestore = { width: videoWidth, height: videoHeight, rate: videoRate };
+    }
+    this.setScreenResolution(mode.width, mode.height, mode.rate);
+  }
+  
+  // Put the screen back the way it was before we started matching; only the
+  // controller may set the mode, so this has to go out before control moves
+  private restoreScreenMode(): void {
+    const restore = this.matchWindowRestore;
+    if (!restore) return;
+    this.matchWindowRestore = null;
+    this.send({ event: 'screen/set', ...restore });
+  }
+  
+  // Control moved without us handing it over: the server already ignores our
+  // screen and input messages, so drop what we would have restored or released
+  private forgetControlState(): void {
+    this.matchWindowRestore = null;
+    this.pressedKeysyms.clear();
+    this.pressedButtons.clear();
+  }
+  
+  // Video and audio tracks share one stream so they play in sync
+  private attachTrack(track: MediaStreamTrack): void {
+    if (!this.stream) {
+      this.stream = new MediaStream();
+    }
+    
+    for (const existing of this.stream.getTracks()) {
+      if (existing.kind === track.kind && existing !== track) {
+        this.stream.removeTrack(existing);
+      }
+    }
+    if (!this.stream.getTracks().includes(track)) {
+      this.stream.addTrack(track);
+    }
+    
+    this.attachStream();
+  }
+  
+  private attachStream(): void {
+    if (!this.videoElement || !this.stream) return;
+    
+    if (this.videoElement.srcObject !== this.stream) {
+      this.videoElement.srcObject = this.stream;
+    }
+    this.applyVolume();
+    this.play();
+  }
+  
+  private play(): void {
+    const element = this.videoElement;
+    if (!element) return;
+    
+    element.play().catch((error) => {
+      if (error?.name !== 'NotAllowedError') {
+        console.error('[Neko] Playback failed:', error);
+        return;
+      }
+      
+      // Autoplay with sound was refused: keep the picture running muted
+      // until the user interacts with the page
+      console.log('[Neko] Autoplay blocked, playing muted');
+      this.setAutoplayBlocked(true);
+      element.play().catch(console.error);
+    });
+  }
+  
+  private applyVolume(): void {
+    if (!this.videoElement) return;
+    this.videoElement.volume = this.state.volume;
+    this.videoElement.muted = this.state.audioMuted || this.state.autoplayBlocked;
+  }
+  
+  private setAutoplayBlocked(blocked: boolean): void {
+    this.state.autoplayBlocked = blocked;
+    this.applyVolume();
+    this.events.onAutoplayBlocked?.(blocked);
   }
   
   private setupDataChannel(): void {
@@ -302,11 +1150,23 @@ export class NekoClient {
   }
   
   private handleDisconnect(reason: string): void {
-    const wasConnected = this.state.connected;
+    // The WebSocket and the peer connection can both report the same drop;
+    // only a live or in-flight connection can be lost
+    const phase = this.state.phase;
+    if (phase === 'idle' || phase === 'reconnecting' || phase === 'failed' || phase === 'closed') return;
     
-    this.state.connected = false;
-    this.state.connecting = false;
-    this.state.controlling = false;
+    const wasConnected = phase === 'connected';
+    const recovering = wasConnected || this.state.reconnectAttempt > 0;
+    
+    this.state.members = [];
+    this.state.controllerId = null;
+    this.state.controlPending = false;
+    this.state.controlRequests = [];
+    this.state.locked = false;
+    this.state.clipboard = '';
+    this.membersLoaded = false;
+    this.resetDownloads(new Error('Connection lost'));
+    this.setPointers({});
     
     if (wasConnected) {
       this.events.onDisconnected?.(reason);
@@ -315,28 +1175,133 @@ export class NekoClient {
     // Cleanup
     this.cleanup();
     
-    // Auto-reconnect if we were connected
-    if (wasConnected && this.config && this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      console.log(`[Neko] Reconnecting (attempt ${this.reconnectAttempts})...`);
-      setTimeout(() => {
-        this.establishConnection().catch(console.error);
-      }, 2000 * this.reconnectAttempts);
+    // Auto-reconnect if we were connected or are already retrying
+    if (recovering && this.config && this.state.reconnectAttempt < this.reconnectPolicy.maxAttempts) {
+      this.scheduleReconnect();
+      return;
+    }
+    
+    // Without a config the session was ended on purpose (e.g. kicked)
+    if (!this.config) {
+      this.state.error = reason;
+      this.setReconnect(0, null);
+      this.transition('closed');
+      return;
+    }
+    
+    if (recovering && this.reconnectPolicy.giveUp === 'close') {
+      this.config = null;
+      this.state.error = null;
+      this.setReconnect(0, null);
+      this.transition('closed');
+      return;
+    }
+    
+    this.state.error = recovering
+      ? `${reason} (gave up after ${this.state.reconnectAttempt} reconnect attempts)`
+      : reason;
+    this.setReconnect(0, null);
+    this.transition('failed');
+  }
+  
+  private setReconnect(attempt: number, nextRetryAt: number | null): void {
+    if (this.state.reconnectAttempt === attempt && this.state.nextRetryAt === nextRetryAt) return;
+    this.state.reconnectAttempt = attempt;
+    this.state.nextRetryAt = nextRetryAt;
+    this.events.onReconnectChange?.(attempt, nextRetryAt);
+  }
+  
+  private scheduleReconnect(): void {
+    const attempt = this.state.reconnectAttempt + 1;
+    const delay = getReconnectDelay(this.reconnectPolicy, attempt);
+    
+    this.setReconnect(attempt, Date.now() + delay);
+    this.transition('reconnecting');
+    console.log(`[Neko] Reconnecting in ${delay}ms (attempt ${attempt}/${this.reconnectPolicy.maxAttempts})`);
+    
+    this.reconnectTimer = setTimeout(() => this.attemptReconnect(), delay);
+  }
+  
+  private attemptReconnect(): void {
+    this.reconnectTimer = null;
+    this.setReconnect(this.state.reconnectAttempt, null);
+    
+    this.establishConnection().catch((error) => {
+      this.handleDisconnect(error instanceof Error ? error.message : 'Connection failed');
+    });
+  }
+  
+  private async sampleStats(): Promise<void> {
+    if (!this.pc || this.state.phase !== 'connected') return;
+    
+    try {
+      const report = await this.pc.getStats();
+      const { stats, snapshot } = computeStats(report, this.statsSnapshot);
+      
+      // The first sample only establishes the baseline for rates
+      const isBaseline = !this.statsSnapshot;
+      this.statsSnapshot = snapshot;
+      if (isBaseline) return;
+      
+      this.state.stats = stats;
+      this.state.statsHistory = [...this.state.statsHistory, stats].slice(-STATS_HISTORY_LENGTH);
+      this.events.onStats?.(stats, this.state.statsHistory);
+    } catch (error) {
+      console.error('[Neko] Failed to read stats:', error);
     }
   }
   
+  private resetStats(): void {
+    this.statsSnapshot = null;
+    this.state.stats = null;
+    this.state.statsHistory = [];
+    this.events.onStats?.(null, []);
+  }
+  
   private cleanup(): void {
+    this.stream = null;
+    this.statsSnapshot = null;
+    this.pendingPointer = null;
+    
+    // The server drops partial files along with the connection
+    if (this.uploadFiles.size > 0) {
+      const failed = new Set(this.uploadFiles.keys());
+      this.uploadFiles.clear();
+      this.setUploads(this.state.uploads.map(u => (
+        failed.has(u.id) ? { ...u, status: 'error', error: 'Connection lost' } : u
+      )));
+    }
+    
+    if (this.pointerTimer) {
+      clearTimeout(this.pointerTimer);
+      this.pointerTimer = null;
+    }
+    
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    
+    this.clearConnectTimer();
+    this.clearIceRestart();
+    
     if (this.dataChannel) {
       this.dataChannel.close();
       this.dataChannel = null;
     }
     
+    // Detach handlers first so closing does not report a disconnect
     if (this.pc) {
+      this.pc.onconnectionstatechange = null;
+      this.pc.oniceconnectionstatechange = null;
       this.pc.close();
       this.pc = null;
     }
     
     if (this.ws) {
+      this.ws.onclose = null;
+      this.ws.onerror = null;
+      this.ws.onmessage = null;
       this.ws.close();
       this.ws = null;
     }
@@ -349,6 +1314,11 @@ export class NekoClient {
     this.sendBinary(encodeMouseMove(x, y));
   }
   
+  sendMouseMoveRelative(deltaX: number, deltaY: number): void {
+    if (!this.state.controlling) return;
+    this.sendBinary(encodeMouseMoveRelative(deltaX, deltaY));
+  }
+  
   sendMouseScroll(deltaX: number, deltaY: number): void {
     if (!this.state.controlling) return;
     this.sendBinary(encodeMouseScroll(deltaX, deltaY));
@@ -357,14 +1327,373 @@ export class NekoClient {
   sendMouseButton(button: number, pressed: boolean): void {
     if (!this.state.controlling) return;
     const mappedButton = getMouseButton(button);
+    
+    if (pressed) {
+      this.pressedButtons.add(mappedButton);
+    } else if (!this.pressedButtons.delete(mappedButton)) {
+      return;
+    }
     this.sendBinary(encodeMouseButton(mappedButton, pressed));
   }
   
+  // Release every key and button still held on the remote, so nothing stays
+  // stuck when input stops reaching us (focus loss, control loss, disconnect)
+  releaseInputs(): void {
+    this.releaseKeys();
+    this.releaseButtons();
+  }
+  
+  private releaseKeys(): void {
+    this.pressedKeysyms.forEach(keysym => this.sendBinary(encodeKey(keysym, false)));
+    this.pressedKeysyms.clear();
+  }
+  
+  releaseButtons(): void {
+    this.pressedButtons.forEach(button => this.sendBinary(encodeMouseButton(button, false)));
+    this.pressedButtons.clear();
+  }
+  
   sendKeyEvent(event: KeyboardEvent, pressed: boolean): void {
     if (!this.state.controlling) return;
-    const keysym = getKeysym(event);
-    if (keysym !== null) {
-      this.sendBinary(encodeKey(keysym, pressed));
+    const id = event.code || event.key;
+    
+    // Keys whose press was not sent (dead keys, IME composition) release nothing
+    if (!pressed) {
+      const keysym = this.pressedKeysyms.get(id);
+      if (keysym === undefined) return;
+      this.pressedKeysyms.delete(id);
+      this.sendBinary(encodeKey(keysym, false));
+      return;
+    }
+    
+    const hotkey = this.state.releaseHotkey;
+    if (hotkey && matchesChord(event, hotkey)) {
+      this.releaseControl();
+      return;
+    }
+    
+    // A remapped key acts as the key it is mapped to
+    const target = this.remap[event.code];
+    const keysym = target
+      ? getKeysym({ code: target, key: 'Unidentified', shiftKey: event.shiftKey }, this.layoutTable)
+      : getKeysym(event, this.layoutTable);
+    if (keysym === null) return;
+    this.pressedKeysyms.set(id, keysym);
+    this.sendBinary(encodeKey(keysym, true));
+  }
+  
+  // Press or release a keysym directly (on-screen keys, soft keyboard edits)
+  sendKeysym(keysym: number, pressed: boolean): void {
+    if (!this.state.controlling) return;
+    const id = `keysym:${keysym}`;
+    
+    if (pressed) {
+      this.pressedKeysyms.set(id, keysym);
+    } else if (!this.pressedKeysyms.delete(id)) {
+      return;
+    }
+    this.sendBinary(encodeKey(keysym, pressed));
+  }
+  
+  // Type text character by character, e.g. the result of an IME composition
+  sendText(text: string): void {
+    if (!this.state.controlling) return;
+    for (const character of text) {
+      const keysym = character === '\n' ? KEYSYM_MAP.Enter : getCharKeysym(character);
+      if (keysym === null) continue;
+      this.sendBinary(encodeKey(keysym, true));
+      this.sendBinary(encodeKey(keysym, false));
+    }
+  }
+  
+  // Push text to the remote clipboard
+  sendClipboard(text: string): void {
+    if (!this.state.controlling || text === this.state.clipboard) return;
+    this.state.clipboard = text;
+    this.send({ event: 'control/clipboard', text });
+    this.events.onClipboard?.(text);
+  }
+  
+  // Push the local clipboard to the remote, where the async Clipboard API is allowed
+  async syncLocalClipboard(): Promise<void> {
+    if (!this.state.controlling || !navigator.clipboard?.readText) return;
+    
+    try {
+      this.sendClipboard(await navigator.clipboard.readText());
+    } catch {
+      // Permission denied or document not focused
+    }
+  }
+  
+  // Ask the server for the resolutions it supports
+  requestScreenConfigurations(): void {
+    this.send({ event: 'screen/configurations' });
+  }
+  
+  // Follow the local view size with the remote resolution while in control
+  setMatchWindow(enabled: boolean): void {
+    this.state.matchWindow = enabled;
+    if (enabled) {
+      this.applyMatchWindow();
+    } else {
+      this.restoreScreenMode();
+    }
+  }
+  
+  // Latest size of the local view in device pixels
+  setMatchWindowSize(width: number, height: number): void {
+    this.matchWindowSize = { width: Math.round(width), height: Math.round(height) };
+    this.applyMatchWindow();
+  }
+  
+  // Change the remote screen mode (controller or admin only)
+  setScreenResolution(width: number, height: number, rate: number): void {
+    if (!this.state.controlling && !this.isAdmin()) return;
+    this.send({ event: 'screen/set', width, height, rate });
+  }
+  
+  // Audio playback
+  
+  setVolume(volume: number): void {
+    this.state.volume = Math.min(1, Math.max(0, volume));
+    this.applyVolume();
+    this.events.onVolumeChange?.(this.state.volume, this.state.audioMuted);
+  }
+  
+  setAudioMuted(muted: boolean): void {
+    this.state.audioMuted = muted;
+    this.applyVolume();
+    this.events.onVolumeChange?.(this.state.volume, this.state.audioMuted);
+  }
+  
+  // Capture the local pointer and send relative movement while in control
+  setPointerLock(enabled: boolean): void {
+    this.state.pointerLock = enabled;
+  }
+  
+  setCursorPrediction(enabled: boolean): void {
+    this.state.cursorPrediction = enabled;
+  }
+  
+  setLaserPointer(enabled: boolean): void {
+    this.state.laserPointer = enabled;
+  }
+  
+  sendChatMessage(content: string): void {
+    const text = content.trim().slice(0, CHAT_MAX_LENGTH);
+    if (!text || !this.state.connected) return;
+    this.send({ event: 'chat/message', content: text });
+  }
+  
+  // Stream a local file to the server, which saves it where the remote
+  // browser's file picker can find it
+  uploadFile(file: File): void {
+    if (!this.state.controlling) return;
+    
+    const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+    const upload: FileUpload = {
+      id,
+      name: file.name,
+      size: file.size,
+      received: 0,
+      status: 'uploading',
+      error: null,
+      path: null,
+    };
+    
+    if (file.size > UPLOAD_MAX_SIZE) {
+      this.setUploads([...this.state.uploads, {
+        ...upload,
+        status: 'error',
+        error: `Larger than ${formatBytes(UPLOAD_MAX_SIZE)}`,
+      }]);
+      return;
+    }
+    
+    this.uploadFiles.set(id, { file, offset: 0, reading: false });
+    this.setUploads([...this.state.uploads, upload]);
+    this.send({ event: 'upload/start', id, name: file.name, size: file.size });
+  }
+  
+  cancelUpload(id: string): void {
+    if (!this.uploadFiles.delete(id)) return;
+    this.send({ event: 'upload/cancel', id });
+    this.updateUpload(id, { status: 'cancelled' });
+  }
+  
+  // Remove a finished, failed or cancelled upload from the list
+  dismissUpload(id: string): void {
+    if (this.uploadFiles.has(id)) return;
+    this.setUploads(this.state.uploads.filter(u => u.id !== id));
+  }
+  
+  // Fetch a file the remote browser downloaded; progress is kept in
+  // state.downloadProgress while the transfer runs
+  async fetchDownload(id: string): Promise<Blob> {
+    const url = this.buildHttpUrl(`/downloads/${encodeURIComponent(id)}`);
+    if (!url || !this.downloadToken || !this.state.connected) {
+      throw new Error('Not connected');
+    }
+    if (this.downloadFetches.has(id)) {
+      throw new Error('Already downloading');
+    }
+    
+    const tooLarge = `Larger than ${formatBytes(DOWNLOAD_MAX_SIZE)}`;
+    const listed = this.state.downloads.find(d => d.id === id);
+    if (listed && listed.size > DOWNLOAD_MAX_SIZE) {
+      throw new Error(tooLarge);
+    }
+    
+    const controller = new AbortController();
+    this.downloadFetches.set(id, controller);
+    this.setDownloadProgress(id, { received: 0, total: listed?.size ?? 0 });
+    
+    try {
+      // A header keeps the token out of server and proxy logs
+      const response = await fetch(url, {
+        headers: { 'X-Neko-Token': this.downloadToken },
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(response.status === 404 ? 'The file no longer exists' : `Server responded with ${response.status}`);
+      }
+      
+      const total = Number(response.headers.get('Content-Length')) || 0;
+      if (total > DOWNLOAD_MAX_SIZE) {
+        await response.body.cancel();
+        throw new Error(tooLarge);
+      }
+      
+      const reader = response.body.getReader();
+      const chunks: Uint8Array[] = [];
+      let received = 0;
+      let step = 0;
+      
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        
+        // The file may have grown since it was listed
+        received += value.length;
+        if (received > DOWNLOAD_MAX_SIZE) {
+          await reader.cancel();
+          throw new Error(tooLarge);
+        }
+        chunks.push(value);
+        
+        // One update per percent (or per megabyte of unknown size) is plenty
+        const next = total > 0 ? Math.floor((received / total) * 100) : Math.floor(received / (1024 * 1024));
+        if (next !== step) {
+          step = next;
+          this.setDownloadProgress(id, { received, total });
+        }
+      }
+      
+      return new Blob(chunks, { type: response.headers.get('Content-Type') || 'application/octet-stream' });
+    } finally {
+      if (this.downloadFetches.get(id) === controller) {
+        this.downloadFetches.delete(id);
+        this.setDownloadProgress(id, null);
+      }
+    }
+  }
+  
+  // Remove a downloaded file from the server
+  deleteDownload(id: string): void {
+    this.send({ event: 'download/delete', id });
+  }
+  
+  // Share our pointer with the other members, in remote pixels. Anyone may
+  // point, in control or not
+  sharePointer(x: number, y: number): void {
+    if (!this.state.connected) return;
+    this.pendingPointer = { x: Math.round(x), y: Math.round(y) };
+    if (this.pointerTimer) return;
+    
+    const wait = this.pointerSentAt + POINTER_INTERVAL - Date.now();
+    if (wait <= 0) {
+      this.flushPointer();
+    } else {
+      this.pointerTimer = setTimeout(() => {
+        this.pointerTimer = null;
+        this.flushPointer();
+      }, wait);
+    }
+  }
+  
+  // Hide our pointer from the other members
+  hidePointer(): void {
+    if (this.pointerTimer) {
+      clearTimeout(this.pointerTimer);
+      this.pointerTimer = null;
+    }
+    this.pendingPointer = null;
+    this.send({ event: 'presence/pointer' });
+  }
+  
+  private flushPointer(): void {
+    if (!this.pendingPointer) return;
+    this.send({ event: 'presence/pointer', ...this.pendingPointer, laser: this.state.laserPointer });
+    this.pendingPointer = null;
+    this.pointerSentAt = Date.now();
+  }
+  
+  // Key chord that gives up control instead of reaching the remote; null disables it
+  setReleaseHotkey(chord: HotkeyChord | null): void {
+    this.state.releaseHotkey = chord;
+  }
+  
+  setRemapProfiles(profiles: KeyRemapProfile[], activeId: string | null): void {
+    const active = findRemapProfile(profiles, activeId);
+    this.state.remapProfiles = profiles;
+    this.state.remapProfileId = active?.id ?? null;
+    this.remap = active?.mappings ?? {};
+  }
+  
+  // Choose the layout for keys the browser cannot identify; 'auto' asks the
+  // Keyboard API and falls back to US where it is unavailable
+  async setKeyboardLayout(layout: KeyboardLayout): Promise<void> {
+    this.state.keyboardLayout = layout;
+    
+    let table = US_LAYOUT;
+    let detected: NekoState['detectedLayout'] = null;
+    if (layout === 'auto') {
+      const map = await getLayoutMap();
+      if (this.state.keyboardLayout !== layout) return;
+      if (map) {
+        table = layoutFromMap(map);
+        detected = matchLayout(map);
+      }
+    } else {
+      table = KEYBOARD_LAYOUTS[layout].table;
+    }
+    
+    this.layoutTable = table;
+    this.state.detectedLayout = detected;
+    this.events.onKeyboardLayoutChange?.(layout, detected);
+  }
+  
+  // Resume sound after an autoplay block; must be called from a user gesture
+  unlockAudio(): void {
+    if (!this.state.autoplayBlocked) return;
+    this.setAutoplayBlocked(false);
+    this.videoElement?.play().catch((error) => {
+      console.error('[Neko] Failed to unlock audio:', error);
+      this.setAutoplayBlocked(true);
+    });
+  }
+  
+  // Periodically sample getStats() while enabled
+  setStatsEnabled(enabled: boolean): void {
+    this.state.statsEnabled = enabled;
+    
+    if (enabled && !this.statsTimer) {
+      this.statsTimer = setInterval(() => this.sampleStats(), STATS_INTERVAL);
+      this.sampleStats();
+    } else if (!enabled && this.statsTimer) {
+      clearInterval(this.statsTimer);
+      this.statsTimer = null;
+      this.resetStats();
     }
   }
   
@@ -375,21 +1704,123 @@ export class NekoClient {
   
   // Release control
   releaseControl(): void {
+    this.restoreScreenMode();
+    this.releaseInputs();
     this.send({ event: 'control/release' });
     this.state.controlling = false;
+    this.setController(null);
+    this.setControlRequests([]);
+    this.addSystemMessage('You released control');
+    this.events.onControlReleased?.();
+  }
+  
+  // Hand control to another member
+  giveControl(memberId: string): void {
+    if (this.state.controlling) {
+      this.restoreScreenMode();
+      this.releaseInputs();
+    }
+    this.send({ event: 'control/give', id: memberId });
+  }
+  
+  // Accept a pending request, handing control to the requester
+  acceptControlRequest(memberId: string): void {
+    this.giveControl(memberId);
+    this.setControlRequests(this.state.controlRequests.filter(id => id !== memberId));
+  }
+  
+  // Deny a pending request, keeping control
+  denyControlRequest(memberId: string): void {
+    this.send({ event: 'control/deny', id: memberId });
+    this.setControlRequests(this.state.controlRequests.filter(id => id !== memberId));
+  }
+  
+  // Admin methods
+  
+  private isAdmin(): boolean {
+    return this.state.members.some(m => m.id === this.state.memberId && m.admin);
+  }
+  
+  // Prevent new members from joining
+  lockRoom(): void {
+    if (!this.isAdmin()) return;
+    this.send({ event: 'admin/lock' });
+  }
+  
+  unlockRoom(): void {
+    if (!this.isAdmin()) return;
+    this.send({ event: 'admin/unlock' });
+  }
+  
+  // Take control regardless of who currently holds it
+  forceControl(): void {
+    if (!this.isAdmin()) return;
+    this.send({ event: 'admin/control' });
+  }
+  
+  // Release control regardless of who currently holds it
+  forceRelease(): void {
+    if (!this.isAdmin()) return;
+    this.send({ event: 'admin/release' });
+  }
+  
+  kickMember(memberId: string): void {
+    if (!this.isAdmin()) return;
+    this.send({ event: 'admin/kick', id: memberId });
+  }
+  
+  // Muted members keep watching but their input is ignored
+  muteMember(memberId: string): void {
+    if (!this.isAdmin()) return;
+    this.send({ event: 'admin/mute', id: memberId });
+  }
+  
+  unmuteMember(memberId: string): void {
+    if (!this.isAdmin()) return;
+    this.send({ event: 'admin/unmute', id: memberId });
+  }
+  
+  // Skip the remaining backoff delay of a scheduled reconnect
+  retryNow(): void {
+    if (this.state.phase !== 'reconnecting' || !this.reconnectTimer) return;
+    clearTimeout(this.reconnectTimer);
+    this.attemptReconnect();
+  }
+  
+  // Stop reconnecting and end the session
+  async cancelReconnect(): Promise<void> {
+    if (this.state.reconnectAttempt === 0) return;
+    await this.disconnect();
   }
   
   // Disconnect
   async disconnect(): Promise<void> {
     this.config = null;
+    this.restoreScreenMode();
+    this.releaseInputs();
+    this.detachNetworkListeners();
+    this.setStatsEnabled(false);
     this.cleanup();
+    this.membersLoaded = false;
+    this.resetDownloads();
+    this.setReconnect(0, null);
+    this.transition('closed');
+    
+    // Playback and input preferences outlive the session
     this.state = {
-      connected: false,
-      connecting: false,
-      controlling: false,
-      videoWidth: 1280,
-      videoHeight: 720,
-      error: null,
+      ...createInitialState(),
+      phase: this.state.phase,
+      volume: this.state.volume,
+      audioMuted: this.state.audioMuted,
+      pointerLock: this.state.pointerLock,
+      matchWindow: this.state.matchWindow,
+      keyboardLayout: this.state.keyboardLayout,
+      detectedLayout: this.state.detectedLayout,
+      releaseHotkey: this.state.releaseHotkey,
+      remapProfiles: this.state.remapProfiles,
+      remapProfileId: this.state.remapProfileId,
+      cursorPrediction: this.state.cursorPrediction,
+      laserPointer: this.state.laserPointer,
     };
   }
 }
@@ -0,0 +1,76 @@
+// Neko Hotkeys - Release-control chord and key remapping profiles
+
+import type { HotkeyChord, KeyRemapProfile } from './types';
+
+export const DEFAULT_RELEASE_HOTKEY: HotkeyChord = {
+  code: 'F12',
+  ctrlKey: false,
+  altKey: false,
+  shiftKey: true,
+  metaKey: false,
+};
+
+export const BUILTIN_REMAP_PROFILES: KeyRemapProfile[] = [
+  {
+    id: 'mac-cmd-ctrl',
+    name: 'macOS: Cmd as Ctrl',
+    mappings: { MetaLeft: 'ControlLeft', MetaRight: 'ControlRight' },
+    builtin: true,
+  },
+  {
+    id: 'swap-caps-ctrl',
+    name: 'Swap Caps Lock and Ctrl',
+    mappings: { CapsLock: 'ControlLeft', ControlLeft: 'CapsLock' },
+    builtin: true,
+  },
+];
+
+const MODIFIER_CODES = new Set([
+  'ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight',
+  'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight',
+]);
+
+export function isModifierCode(code: string): boolean {
+  return MODIFIER_CODES.has(code);
+}
+
+type ChordEvent = Pick<KeyboardEvent, 'code' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>;
+
+// The chord a key press makes; pressing only modifiers makes none
+export function chordFromEvent(event: ChordEvent): HotkeyChord | null {
+  if (!event.code || isModifierCode(event.code)) return null;
+  const { code, ctrlKey, altKey, shiftKey, metaKey } = event;
+  return { code, ctrlKey, altKey, shiftKey, metaKey };
+}
+
+export function matchesChord(event: ChordEvent, chord: HotkeyChord): boolean {
+  return event.code === chord.code
+    && event.ctrlKey === chord.ctrlKey
+    && event.altKey === chord.altKey
+    && event.shiftKey === chord.shiftKey
+    && event.metaKey === chord.metaKey;
+}
+
+// Readable name for a physical key code
+export function formatKeyCode(code: string): string {
+  if (/^Key[A-Z]$/.test(code)) return code.slice(3);
+  if (/^Digit\d$/.test(code)) return code.slice(5);
+  if (code.startsWith('Arrow')) return `${code.slice(5)} Arrow`;
+  return code
+    .replace(/^Control/, 'Ctrl')
+    .replace(/(Left|Right)$/, ' $1');
+}
+
+export function formatChord(chord: HotkeyChord): string {
+  return [
+    chord.ctrlKey && 'Ctrl',
+    chord.altKey && 'Alt',
+    chord.shiftKey && 'Shift',
+    chord.metaKey && 'Meta',
+    formatKeyCode(chord.code),
+  ].filter(Boolean).join('+');
+}
+
+export function findRemapProfile(profiles: KeyRemapProfile[], id: string | null): KeyRemapProfile | null {
+  return (id && profiles.find(profile => profile.id === id)) || null;
+}
@@ -0,0 +1,142 @@
+// Neko Keyboard Layouts - Characters produced by physical keys in common layouts
+
+import type { KeyboardLayout } from './types';
+
+// Physical key code -> [unshifted, shifted] character; empty when the key
+// produces nothing
+export type LayoutTable = Record<string, [string, string]>;
+
+type NamedLayout = Exclude<KeyboardLayout, 'auto'>;
+
+function letters(): LayoutTable {
+  const table: LayoutTable = {};
+  for (const letter of 'ABCDEFGHIJKLMNOPQRSTUVWXYZ') {
+    table[`Key${letter}`] = [letter.toLowerCase(), letter];
+  }
+  return table;
+}
+
+export const US_LAYOUT: LayoutTable = {
+  ...letters(),
+  Digit1: ['1', '!'], Digit2: ['2', '@'], Digit3: ['3', '#'], Digit4: ['4', '$'],
+  Digit5: ['5', '%'], Digit6: ['6', '^'], Digit7: ['7', '&'], Digit8: ['8', '*'],
+  Digit9: ['9', '('], Digit0: ['0', ')'],
+  Minus: ['-', '_'],
+  Equal: ['=', '+'],
+  BracketLeft: ['[', '{'],
+  BracketRight: [']', '}'],
+  Backslash: ['\\', '|'],
+  IntlBackslash: ['\\', '|'],
+  Semicolon: [';', ':'],
+  Quote: ['\'', '"'],
+  Backquote: ['`', '~'],
+  Comma: [',', '<'],
+  Period: ['.', '>'],
+  Slash: ['/', '?'],
+  Space: [' ', ' '],
+};
+
+// German QWERTZ
+const DE_LAYOUT: LayoutTable = {
+  ...US_LAYOUT,
+  KeyY: ['z', 'Z'], KeyZ: ['y', 'Y'],
+  Digit2: ['2', '"'], Digit3: ['3', '§'], Digit6: ['6', '&'], Digit7: ['7', '/'],
+  Digit8: ['8', '('], Digit9: ['9', ')'], Digit0: ['0', '='],
+  Minus: ['ß', '?'],
+  Equal: ['´', '`'],
+  BracketLeft: ['ü', 'Ü'],
+  BracketRight: ['+', '*'],
+  Backslash: ['#', '\''],
+  IntlBackslash: ['<', '>'],
+  Semicolon: ['ö', 'Ö'],
+  Quote: ['ä', 'Ä'],
+  Backquote: ['^', '°'],
+  Comma: [',', ';'],
+  Period: ['.', ':'],
+  Slash: ['-', '_'],
+};
+
+// French AZERTY; the digit row needs shift for digits
+const FR_LAYOUT: LayoutTable = {
+  ...US_LAYOUT,
+  KeyQ: ['a', 'A'], KeyA: ['q', 'Q'], KeyW: ['z', 'Z'], KeyZ: ['w', 'W'],
+  KeyM: [',', '?'],
+  Digit1: ['&', '1'], Digit2: ['é', '2'], Digit3: ['"', '3'], Digit4: ['\'', '4'],
+  Digit5: ['(', '5'], Digit6: ['-', '6'], Digit7: ['è', '7'], Digit8: ['_', '8'],
+  Digit9: ['ç', '9'], Digit0: ['à', '0'],
+  Minus: [')', '°'],
+  Equal: ['=', '+'],
+  BracketLeft: ['^', '¨'],
+  BracketRight: ['$', '£'],
+  Backslash: ['*', 'µ'],
+  IntlBackslash: ['<', '>'],
+  Semicolon: ['m', 'M'],
+  Quote: ['ù', '%'],
+  Backquote: ['²', '²'],
+  Comma: [';', '.'],
+  Period: [':', '/'],
+  Slash: ['!', '§'],
+};
+
+// Japanese JIS
+const JA_LAYOUT: LayoutTable = {
+  ...US_LAYOUT,
+  Digit2: ['2', '"'], Digit6: ['6', '&'], Digit7: ['7', '\''], Digit8: ['8', '('],
+  Digit9: ['9', ')'], Digit0: ['0', ''],
+  Minus: ['-', '='],
+  Equal: ['^', '~'],
+  IntlYen: ['¥', '|'],
+  BracketLeft: ['@', '`'],
+  BracketRight: ['[', '{'],
+  Backslash: [']', '}'],
+  Semicolon: [';', '+'],
+  Quote: [':', '*'],
+  IntlRo: ['\\', '_'],
+};
+
+export const KEYBOARD_LAYOUTS: Record<NamedLayout, { label: string; table: LayoutTable }> = {
+  us: { label: 'English (US)', table: US_LAYOUT },
+  de: { label: 'German (QWERTZ)', table: DE_LAYOUT },
+  fr: { label: 'French (AZERTY)', table: FR_LAYOUT },
+  ja: { label: 'Japanese (JIS)', table: JA_LAYOUT },
+};
+
+// Keyboard API layout map: physical key code -> unshifted character
+type LayoutMap = Pick<Map<string, string>, 'get' | 'forEach'>;
+
+// Closest named layout, judged by the keys that tell them apart
+export function matchLayout(map: LayoutMap): NamedLayout {
+  if (map.get('KeyQ') === 'a') return 'fr';
+  if (map.get('KeyY') === 'z' || map.get('Minus') === 'ß') return 'de';
+  if (map.get('BracketLeft') === '@') return 'ja';
+  return 'us';
+}
+
+// Table for a layout reported by the browser. The map only knows unshifted
+// characters; shifted ones come from the closest named layout where it agrees
+export function layoutFromMap(map: LayoutMap): LayoutTable {
+  const base = KEYBOARD_LAYOUTS[matchLayout(map)].table;
+  const table: LayoutTable = { ...base };
+  map.forEach((character, code) => {
+    const known = base[code];
+    table[code] = known && known[0] === character
+      ? known
+      : [character, character.toUpperCase()];
+  });
+  return table;
+}
+
+// Ask the Keyboard API for the user's layout; unavailable outside Chromium
+export async function getLayoutMap(): Promise<LayoutMap | null> {
+  const keyboard = (navigator as Navigator & {
+    keyboard?: { getLayoutMap?: () => Promise<LayoutMap> };
+  }).keyboard;
+  if (!keyboard?.getLayoutMap) return null;
+
+  try {
+    return await keyboard.getLayoutMap();
+  } catch (error) {
+    console.error('[Neko] Failed to read keyboard layout:', error);
+    return null;
+  }
+}
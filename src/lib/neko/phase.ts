@@ -0,0 +1,45 @@
+// Neko Connection Phases - Allowed transitions of the connection state machine
+
+import type { NekoPhase } from './types';
+
+// Every phase may move to 'closed' (user disconnect or kick)
+export const PHASE_TRANSITIONS: Record<NekoPhase, readonly NekoPhase[]> = {
+  idle: ['signaling', 'closed'],
+  signaling: ['authenticating', 'reconnecting', 'failed', 'closed'],
+  authenticating: ['negotiating', 'reconnecting', 'failed', 'closed'],
+  negotiating: ['connected', 'reconnecting', 'failed', 'closed'],
+  connected: ['reconnecting', 'failed', 'closed'],
+  reconnecting: ['signaling', 'failed', 'closed'],
+  failed: ['signaling', 'closed'],
+  closed: ['signaling', 'closed'],
+};
+
+export function canTransition(from: NekoPhase, to: NekoPhase): boolean {
+  return PHASE_TRANSITIONS[from].includes(to);
+}
+
+// Phases in which a connection attempt is in flight
+export function isConnectingPhase(phase: NekoPhase): boolean {
+  return phase === 'signaling'
+    || phase === 'authenticating'
+    || phase === 'negotiating'
+    || phase === 'reconnecting';
+}
+
+// Phases of a single attempt, between opening the WebSocket and 'connected'
+export function isAttemptPhase(phase: NekoPhase): boolean {
+  return phase === 'signaling'
+    || phase === 'authenticating'
+    || phase === 'negotiating';
+}
+
+export const PHASE_LABELS: Record<NekoPhase, string> = {
+  idle: 'Disconnected',
+  signaling: 'Connecting',
+  authenticating: 'Authenticating',
+  negotiating: 'Negotiating',
+  connected: 'Connected',
+  reconnecting: 'Reconnecting',
+  failed: 'Connection failed',
+  closed: 'Disconnected',
+};
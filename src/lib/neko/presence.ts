@@ -0,0 +1,18 @@
+// Neko Presence - Shared pointers of the members watching a session
+
+// Pointer updates sent per member at most this often, in milliseconds
+export const POINTER_INTERVAL = 50;
+
+const MEMBER_COLORS = [
+  '#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6',
+  '#3b82f6', '#8b5cf6', '#ec4899',
+];
+
+// Stable color per member, so everyone sees the same one
+export function getMemberColor(id: string): string {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) {
+    hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  }
+  return MEMBER_COLORS[Math.abs(hash) % MEMBER_COLORS.length];
+}
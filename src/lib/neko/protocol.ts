@@ -1,6 +1,8 @@
 // Neko Protocol - Binary message encoding for input events
 // Based on Neko's protocol specification
 
+import { US_LAYOUT, type LayoutTable } from './layouts';
+
 // Op codes for different message types
 export const OP = {
   // Mouse operations
@@ -8,6 +10,7 @@ export const OP = {
   MOUSE_SCROLL: 0x02,
   MOUSE_DOWN: 0x03,
   MOUSE_UP: 0x04,
+  MOUSE_MOVE_RELATIVE: 0x07,
   
   // Keyboard operations
   KEY_DOWN: 0x05,
@@ -37,6 +40,14 @@ export function encodeMouseMove(x: number, y: number): ArrayBuffer {
   return buffer;
 }
 
+// Relative mouse move message (pointer lock): [opcode(1), dx(2), dy(2)]
+export function encodeMouseMoveRelative(deltaX: number, deltaY: number): ArrayBuffer {
+  const { buffer, view } = createMessage(OP.MOUSE_MOVE_RELATIVE, 5);
+  view.setInt16(1, Math.round(deltaX), true);
+  view.setInt16(3, Math.round(deltaY), true);
+  return buffer;
+}
+
 // Mouse scroll message: [opcode(1), x(2), y(2)]
 export function encodeMouseScroll(deltaX: number, deltaY: number): ArrayBuffer {
   const { buffer, view } = createMessage(OP.MOUSE_SCROLL, 5);
@@ -61,28 +72,17 @@ export function encodeKey(keycode: number, pressed: boolean): ArrayBuffer {
   return buffer;
 }
 
-// Map browser key codes to X11 keysyms
-// This is a simplified mapping - full mapping would include all keys
+// Map browser key codes of non-character keys to X11 keysyms
+// (see X11/keysymdef.h and X11/XF86keysym.h)
 export const KEYSYM_MAP: Record<string, number> = {
-  // Letters
-  KeyA: 0x61, KeyB: 0x62, KeyC: 0x63, KeyD: 0x64, KeyE: 0x65,
-  KeyF: 0x66, KeyG: 0x67, KeyH: 0x68, KeyI: 0x69, KeyJ: 0x6a,
-  KeyK: 0x6b, KeyL: 0x6c, KeyM: 0x6d, KeyN: 0x6e, KeyO: 0x6f,
-  KeyP: 0x70, KeyQ: 0x71, KeyR: 0x72, KeyS: 0x73, KeyT: 0x74,
-  KeyU: 0x75, KeyV: 0x76, KeyW: 0x77, KeyX: 0x78, KeyY: 0x79,
-  KeyZ: 0x7a,
-  
-  // Numbers
-  Digit0: 0x30, Digit1: 0x31, Digit2: 0x32, Digit3: 0x33, Digit4: 0x34,
-  Digit5: 0x35, Digit6: 0x36, Digit7: 0x37, Digit8: 0x38, Digit9: 0x39,
-  
   // Function keys
   F1: 0xffbe, F2: 0xffbf, F3: 0xffc0, F4: 0xffc1, F5: 0xffc2,
   F6: 0xffc3, F7: 0xffc4, F8: 0xffc5, F9: 0xffc6, F10: 0xffc7,
-  F11: 0xffc8, F12: 0xffc9,
+  F11: 0xffc8, F12: 0xffc9, F13: 0xffca, F14: 0xffcb, F15: 0xffcc,
+  F16: 0xffcd, F17: 0xffce, F18: 0xffcf, F19: 0xffd0, F20: 0xffd1,
+  F21: 0xffd2, F22: 0xffd3, F23: 0xffd4, F24: 0xffd5,
   
   // Special keys
-  Space: 0x20,
   Enter: 0xff0d,
   Tab: 0xff09,
   Escape: 0xff1b,
@@ -93,6 +93,15 @@ export const KEYSYM_MAP: Record<string, number> = {
   End: 0xff57,
   PageUp: 0xff55,
   PageDown: 0xff56,
+  PrintScreen: 0xff61,
+  Pause: 0xff13,
+  ScrollLock: 0xff14,
+  ContextMenu: 0xff67,
+  
+  // Input method keys
+  Convert: 0xff23,
+  NonConvert: 0xff22,
+  KanaMode: 0xff27,
   
   // Arrow keys
   ArrowUp: 0xff52,
@@ -110,38 +119,109 @@ export const KEYSYM_MAP: Record<string, number> = {
   MetaLeft: 0xffeb,
   MetaRight: 0xffec,
   CapsLock: 0xffe5,
+  NumLock: 0xff7f,
+  
+  // Numpad operators (independent of NumLock)
+  NumpadAdd: 0xffab,
+  NumpadSubtract: 0xffad,
+  NumpadMultiply: 0xffaa,
+  NumpadDivide: 0xffaf,
+  NumpadEnter: 0xff8d,
+  NumpadEqual: 0xffbd,
+  NumpadComma: 0xffac,
   
-  // Punctuation
-  Minus: 0x2d,
-  Equal: 0x3d,
-  BracketLeft: 0x5b,
-  BracketRight: 0x5d,
-  Backslash: 0x5c,
-  Semicolon: 0x3b,
-  Quote: 0x27,
-  Backquote: 0x60,
-  Comma: 0x2c,
-  Period: 0x2e,
-  Slash: 0x2f,
+  // Media and volume keys (XF86 keysyms); older Firefox reports Volume* codes
+  AudioVolumeMute: 0x1008ff12,
+  AudioVolumeDown: 0x1008ff11,
+  AudioVolumeUp: 0x1008ff13,
+  VolumeMute: 0x1008ff12,
+  VolumeDown: 0x1008ff11,
+  VolumeUp: 0x1008ff13,
+  MediaPlayPause: 0x1008ff14,
+  MediaStop: 0x1008ff15,
+  MediaTrackPrevious: 0x1008ff16,
+  MediaTrackNext: 0x1008ff17,
+  MediaSelect: 0x1008ff32,
+  LaunchMail: 0x1008ff19,
+  LaunchApp1: 0x1008ff5d,
+  LaunchApp2: 0x1008ff1d,
+  BrowserBack: 0x1008ff26,
+  BrowserForward: 0x1008ff27,
+  BrowserRefresh: 0x1008ff29,
+  BrowserStop: 0x1008ff28,
+  BrowserSearch: 0x1008ff1b,
+  BrowserFavorites: 0x1008ff30,
+  BrowserHome: 0x1008ff18,
+  Eject: 0x1008ff2c,
+};
+
+// Numpad keys with NumLock on (digits) and off (navigation, reported in event.key)
+const NUMPAD_KEYSYMS: Record<string, [on: number, off: number]> = {
+  Numpad0: [0xffb0, 0xff9e], // KP_Insert
+  Numpad1: [0xffb1, 0xff9c], // KP_End
+  Numpad2: [0xffb2, 0xff99], // KP_Down
+  Numpad3: [0xffb3, 0xff9b], // KP_Next
+  Numpad4: [0xffb4, 0xff96], // KP_Left
+  Numpad5: [0xffb5, 0xff9d], // KP_Begin
+  Numpad6: [0xffb6, 0xff98], // KP_Right
+  Numpad7: [0xffb7, 0xff95], // KP_Home
+  Numpad8: [0xffb8, 0xff97], // KP_Up
+  Numpad9: [0xffb9, 0xff9a], // KP_Prior
+  NumpadDecimal: [0xffae, 0xff9f], // KP_Delete
 };
 
-// Get keysym from browser event
-export function getKeysym(event: KeyboardEvent): number | null {
-  // Check for direct mapping
-  if (KEYSYM_MAP[event.code]) {
-    let keysym = KEYSYM_MAP[event.code];
-    
-    // Handle shift for letters
-    if (event.code.startsWith('Key') && event.shiftKey) {
-      keysym -= 0x20; // Convert to uppercase
-    }
-    
-    return keysym;
+// Keysym for a single character: Latin-1 code points are their own keysyms,
+// everything else uses the Unicode keysym range
+export function getCharKeysym(char: string): number | null {
+  const codePoint = char.codePointAt(0);
+  if (codePoint === undefined || codePoint < 0x20 || (codePoint >= 0x7f && codePoint < 0xa0)) {
+    return null;
+  }
+  if (codePoint <= 0xff) {
+    return codePoint;
+  }
+  return 0x01000000 + codePoint;
+}
+
+function isSingleCharacter(key: string): boolean {
+  return key.length > 0 && [...key].length === 1;
+}
+
+export type KeyInput = Pick<KeyboardEvent, 'code' | 'key' | 'shiftKey'>;
+
+// Get keysym from browser event. `layout` supplies the character for keys the
+// browser cannot identify; dead keys yield nothing, their composed character
+// arrives with the next key
+export function getKeysym(event: KeyInput, layout: LayoutTable = US_LAYOUT): number | null {
+  const { code, key, shiftKey } = event;
+  
+  if (key === 'Dead') return null;
+  
+  // The numpad sends digits or navigation depending on NumLock
+  const numpad = NUMPAD_KEYSYMS[code];
+  if (numpad) {
+    return isSingleCharacter(key) ? numpad[0] : numpad[1];
+  }
+  
+  // Non-character keys by physical position
+  if (KEYSYM_MAP[code] !== undefined) {
+    return KEYSYM_MAP[code];
+  }
+  
+  // The character the key produces in the user's layout, including shift
+  if (isSingleCharacter(key)) {
+    return getCharKeysym(key);
+  }
+  
+  // Named keys without a code (virtual keyboards, synthetic events)
+  if (KEYSYM_MAP[key] !== undefined) {
+    return KEYSYM_MAP[key];
   }
   
-  // Fallback to key character code
-  if (event.key.length === 1) {
-    return event.key.charCodeAt(0);
+  // Unidentified keys: look the physical key up in the layout
+  const character = layout[code];
+  if (character) {
+    return getCharKeysym(character[shiftKey ? 1 : 0]);
   }
   
   return null;
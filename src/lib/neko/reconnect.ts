@@ -0,0 +1,27 @@
+// Neko Reconnect Policy - Exponential backoff with jitter for automatic reconnects
+
+import type { ReconnectPolicy } from './types';
+
+export const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  maxAttempts: 5,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  jitter: 0.3,
+  giveUp: 'fail',
+  iceGracePeriod: 3000,
+  iceRestartTimeout: 10000,
+};
+
+export function resolveReconnectPolicy(policy?: Partial<ReconnectPolicy>): ReconnectPolicy {
+  return { ...DEFAULT_RECONNECT_POLICY, ...policy };
+}
+
+// Delay before the given (1-based) attempt: the base delay doubles per attempt
+// up to maxDelay, then up to `jitter` of it is randomly shaved off so clients
+// dropped together do not all retry at the same instant
+export function getReconnectDelay(policy: ReconnectPolicy, attempt: number, random = Math.random): number {
+  const exponential = policy.baseDelay * 2 ** Math.max(0, attempt - 1);
+  const capped = Math.min(policy.maxDelay, exponential);
+  const jitter = Math.min(1, Math.max(0, policy.jitter));
+  return Math.round(capped * (1 - jitter * random()));
+}
@@ -0,0 +1,33 @@
+// Neko Resolution - Picks the remote screen mode that best matches a target size
+
+import type { ScreenConfiguration } from './types';
+
+export interface ScreenMode {
+  width: number;
+  height: number;
+  rate: number;
+}
+
+// The largest mode that fits inside the target, or the smallest one if none
+// does. Keeps `preferredRate` when the chosen size offers it, otherwise the
+// highest rate
+export function findClosestMode(
+  configurations: ScreenConfiguration[],
+  width: number,
+  height: number,
+  preferredRate?: number
+): ScreenMode | null {
+  if (configurations.length === 0) return null;
+
+  const area = (c: ScreenConfiguration) => c.width * c.height;
+  const fitting = configurations.filter(c => c.width <= width && c.height <= height);
+  const chosen = fitting.length > 0
+    ? fitting.reduce((best, c) => (area(c) > area(best) ? c : best))
+    : configurations.reduce((best, c) => (area(c) < area(best) ? c : best));
+
+  const rate = preferredRate !== undefined && chosen.rates.includes(preferredRate)
+    ? preferredRate
+    : Math.max(...chosen.rates);
+
+  return { width: chosen.width, height: chosen.height, rate };
+}
@@ -0,0 +1,50 @@
+// Neko Settings - User preferences persisted in localStorage
+
+import type { HotkeyChord, KeyboardLayout, KeyRemapProfile } from './types';
+import { DEFAULT_RELEASE_HOTKEY } from './hotkeys';
+
+const STORAGE_KEY = 'neko-settings';
+
+export interface NekoSettings {
+  volume: number;
+  audioMuted: boolean;
+  keyboardLayout: KeyboardLayout;
+  releaseHotkey: HotkeyChord | null;
+  // User-defined profiles; built-in ones are not stored
+  remapProfiles: KeyRemapProfile[];
+  remapProfileId: string | null;
+  cursorPrediction: boolean;
+}
+
+export const DEFAULT_SETTINGS: NekoSettings = {
+  volume: 1,
+  audioMuted: false,
+  keyboardLayout: 'auto',
+  releaseHotkey: DEFAULT_RELEASE_HOTKEY,
+  remapProfiles: [],
+  remapProfileId: null,
+  cursorPrediction: true,
+};
+
+// Load settings, falling back to defaults for anything missing or unreadable
+export function loadSettings(): NekoSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.error('[Neko] Failed to load settings:', error);
+  }
+
+  return { ...DEFAULT_SETTINGS };
+}
+
+// Merge and persist a partial settings update
+export function saveSettings(settings: Partial<NekoSettings>): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadSettings(), ...settings }));
+  } catch (error) {
+    console.error('[Neko] Failed to save settings:', error);
+  }
+}
@@ -0,0 +1,81 @@
+// Neko Stats - Derives stream quality metrics from RTCPeerConnection.getStats()
+
+import type { NekoStats } from './types';
+
+// Cumulative counters from one report, kept to turn the next report into per-interval rates
+export interface StatsSnapshot {
+  timestamp: number;
+  bytesReceived: number;
+  framesDecoded: number;
+  framesDropped: number;
+  totalDecodeTime: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+type Stat = Record<string, unknown>;
+
+function num(value: unknown): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+// The selected pair is referenced by the transport (Chromium, Safari) or
+// flagged directly on the pair (Firefox)
+function findSelectedPair(stats: Stat[]): Stat | undefined {
+  const transport = stats.find(s => s.type === 'transport' && s.selectedCandidatePairId);
+  if (transport) {
+    return stats.find(s => s.id === transport.selectedCandidatePairId);
+  }
+  return stats.find(s => s.type === 'candidate-pair' && (s.selected || (s.nominated && s.state === 'succeeded')));
+}
+
+export function computeStats(
+  report: RTCStatsReport,
+  previous: StatsSnapshot | null
+): { stats: NekoStats; snapshot: StatsSnapshot } {
+  const all: Stat[] = [];
+  report.forEach((stat) => all.push(stat as Stat));
+
+  const video = all.find(s => s.type === 'inbound-rtp' && (s.kind ?? s.mediaType) === 'video') ?? {};
+
+  const snapshot: StatsSnapshot = {
+    timestamp: num(video.timestamp) || Date.now(),
+    bytesReceived: num(video.bytesReceived),
+    framesDecoded: num(video.framesDecoded),
+    framesDropped: num(video.framesDropped),
+    totalDecodeTime: num(video.totalDecodeTime),
+    packetsReceived: num(video.packetsReceived),
+    packetsLost: num(video.packetsLost),
+  };
+
+  // Differences since the previous sample; the first sample uses totals
+  const base = previous ?? { ...snapshot, bytesReceived: 0, framesDecoded: 0, framesDropped: 0,
+    totalDecodeTime: 0, packetsReceived: 0, packetsLost: 0 };
+  const seconds = Math.max(0.001, (snapshot.timestamp - base.timestamp) / 1000);
+  const framesDecoded = Math.max(0, snapshot.framesDecoded - base.framesDecoded);
+  const packetsReceived = Math.max(0, snapshot.packetsReceived - base.packetsReceived);
+  const packetsLost = Math.max(0, snapshot.packetsLost - base.packetsLost);
+
+  const pair = findSelectedPair(all);
+  const local = pair && all.find(s => s.id === pair.localCandidateId);
+  const remote = pair && all.find(s => s.id === pair.remoteCandidateId);
+
+  const stats: NekoStats = {
+    timestamp: snapshot.timestamp,
+    bitrate: previous ? Math.max(0, snapshot.bytesReceived - base.bytesReceived) * 8 / 1000 / seconds : 0,
+    fps: num(video.framesPerSecond) || (previous ? framesDecoded / seconds : 0),
+    framesDropped: Math.max(0, snapshot.framesDropped - base.framesDropped),
+    decodeTime: framesDecoded > 0
+      ? (snapshot.totalDecodeTime - base.totalDecodeTime) / framesDecoded * 1000
+      : 0,
+    jitter: num(video.jitter) * 1000,
+    packetLoss: packetsReceived + packetsLost > 0
+      ? packetsLost / (packetsReceived + packetsLost) * 100
+      : 0,
+    rtt: pair && typeof pair.currentRoundTripTime === 'number' ? pair.currentRoundTripTime * 1000 : null,
+    localCandidateType: (local?.candidateType as string) ?? null,
+    remoteCandidateType: (remote?.candidateType as string) ?? null,
+  };
+
+  return { stats, snapshot };
+}
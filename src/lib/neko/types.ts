@@ -1,27 +1,193 @@
 // Neko WebRTC Client Types
 
+export interface ReconnectPolicy {
+  maxAttempts: number;
+  // Delays in milliseconds
+  baseDelay: number;
+  maxDelay: number;
+  // Fraction (0-1) of each delay that may be randomly removed
+  jitter: number;
+  // After the last attempt: end in 'failed' with an error, or quietly 'closed'
+  giveUp: 'fail' | 'close';
+  // How long a WebRTC 'disconnected' state may last before an ICE restart,
+  // and how long the restart may take before falling back to a full reconnect
+  iceGracePeriod: number;
+  iceRestartTimeout: number;
+}
+
 export interface NekoConfig {
   url: string;
   password?: string;
   displayName?: string;
+  reconnect?: Partial<ReconnectPolicy>;
+}
+
+export interface NekoMember {
+  id: string;
+  displayName: string;
+  admin: boolean;
+  muted: boolean;
+}
+
+export interface ScreenConfiguration {
+  width: number;
+  height: number;
+  rates: number[];
+}
+
+// Keyboard layout used to translate keys the browser cannot identify;
+// 'auto' reads it from the Keyboard API where available
+export type KeyboardLayout = 'auto' | 'us' | 'de' | 'fr' | 'ja';
+
+// A key combination by physical key code, e.g. the release-control hotkey
+export interface HotkeyChord {
+  code: string;
+  ctrlKey: boolean;
+  altKey: boolean;
+  shiftKey: boolean;
+  metaKey: boolean;
+}
+
+// Named set of physical key substitutions (from code -> to code) applied
+// before keys are sent
+export interface KeyRemapProfile {
+  id: string;
+  name: string;
+  mappings: Record<string, string>;
+  builtin?: boolean;
+}
+
+// How the remote frame is placed in the local view: scaled to fit inside or
+// to cover it, one remote pixel per device pixel, or stretched to its shape
+export type ViewportMode = 'fit' | 'fill' | 'actual' | 'stretch';
+
+export interface Viewport {
+  mode: ViewportMode;
+  // Local magnification on top of the mode (1 = none)
+  zoom: number;
+  // Offset of the frame from center, in CSS pixels
+  panX: number;
+  panY: number;
+}
+
+// Stream quality sample; rates cover the interval since the previous sample
+export interface NekoStats {
+  timestamp: number;
+  bitrate: number;        // kbit/s
+  fps: number;
+  framesDropped: number;
+  decodeTime: number;     // ms per frame
+  jitter: number;         // ms
+  packetLoss: number;     // percent
+  rtt: number | null;     // ms
+  localCandidateType: string | null;   // host, srflx, prflx or relay
+  remoteCandidateType: string | null;
 }
 
+// Connection lifecycle:
+// idle -> signaling -> authenticating -> negotiating -> connected -> reconnecting,
+// ending in failed or closed
+export type NekoPhase =
+  | 'idle'
+  | 'signaling'
+  | 'authenticating'
+  | 'negotiating'
+  | 'connected'
+  | 'reconnecting'
+  | 'failed'
+  | 'closed';
+
 export interface NekoState {
+  // connected and connecting are derived from phase and never set on their own
+  phase: NekoPhase;
+  reconnectAttempt: number;
+  // Epoch ms of the next scheduled reconnect attempt, null while none is pending
+  nextRetryAt: number | null;
+  // Media path dropped and is being recovered over the existing signaling
+  iceRestarting: boolean;
   connected: boolean;
   connecting: boolean;
   controlling: boolean;
   videoWidth: number;
   videoHeight: number;
+  videoRate: number;
+  screenConfigurations: ScreenConfiguration[];
   error: string | null;
+  memberId: string | null;
+  members: NekoMember[];
+  controllerId: string | null;
+  controlPending: boolean;
+  controlRequests: string[];
+  locked: boolean;
+  clipboard: string;
+  volume: number;
+  audioMuted: boolean;
+  autoplayBlocked: boolean;
+  statsEnabled: boolean;
+  stats: NekoStats | null;
+  statsHistory: NekoStats[];
+  pointerLock: boolean;
+  matchWindow: boolean;
+  keyboardLayout: KeyboardLayout;
+  detectedLayout: Exclude<KeyboardLayout, 'auto'> | null;
+  releaseHotkey: HotkeyChord | null;
+  remapProfiles: KeyRemapProfile[];
+  remapProfileId: string | null;
+  // Pointer as reported by the server, in remote pixels; null until the
+  // server sends one, which it only does when the video leaves it out
+  cursorImage: CursorImage | null;
+  cursorPosition: MousePosition | null;
+  // Draw the cursor at the local pointer right away instead of waiting for
+  // the server to echo it
+  cursorPrediction: boolean;
+  // Other members' pointers by member id
+  pointers: Record<string, MemberPointer>;
+  // Share our pointer as a laser pointer, without taking control
+  laserPointer: boolean;
+  // Chat and system messages, oldest first; kept across reconnects until
+  // the session is ended with disconnect()
+  chat: ChatEntry[];
+  uploads: FileUpload[];
+  // Files the remote browser finished downloading, newest first
+  downloads: RemoteDownload[];
+  // Downloads being fetched to this machine, by download id
+  downloadProgress: Record<string, DownloadProgress>;
 }
 
 export interface NekoEvents {
+  onPhaseChange?: (phase: NekoPhase, previous: NekoPhase) => void;
+  onReconnectChange?: (attempt: number, nextRetryAt: number | null) => void;
+  onIceRestarting?: (restarting: boolean) => void;
   onConnected?: () => void;
   onDisconnected?: (reason?: string) => void;
   onError?: (error: string) => void;
   onControlGranted?: () => void;
   onControlReleased?: () => void;
-  onResize?: (width: number, height: number) => void;
+  onResize?: (width: number, height: number, rate: number) => void;
+  onScreenConfigurations?: (configurations: ScreenConfiguration[]) => void;
+  onIdentity?: (id: string) => void;
+  onMembersChanged?: (members: NekoMember[]) => void;
+  onMemberJoined?: (member: NekoMember) => void;
+  onMemberLeft?: (member: NekoMember) => void;
+  onControllerChanged?: (id: string | null) => void;
+  onControlPending?: (pending: boolean) => void;
+  onControlDenied?: () => void;
+  onControlRequested?: (member: NekoMember) => void;
+  onControlRequestsChanged?: (ids: string[]) => void;
+  onLockChanged?: (locked: boolean) => void;
+  onClipboard?: (text: string) => void;
+  onVolumeChange?: (volume: number, muted: boolean) => void;
+  onAutoplayBlocked?: (blocked: boolean) => void;
+  onStats?: (stats: NekoStats | null, history: NekoStats[]) => void;
+  onKeyboardLayoutChange?: (layout: KeyboardLayout, detected: Exclude<KeyboardLayout, 'auto'> | null) => void;
+  onCursorImage?: (image: CursorImage | null) => void;
+  onCursorPosition?: (position: MousePosition) => void;
+  onPointersChanged?: (pointers: Record<string, MemberPointer>) => void;
+  onChat?: (chat: ChatEntry[]) => void;
+  onUploadsChanged?: (uploads: FileUpload[]) => void;
+  onDownloadsChanged?: (downloads: RemoteDownload[]) => void;
+  onDownloadProgress?: (progress: Record<string, DownloadProgress>) => void;
+  onDownloadAdded?: (download: RemoteDownload) => void;
 }
 
 // WebSocket message types based on Neko protocol
@@ -29,6 +195,7 @@ export type NekoMessageType =
   | 'signal/provide'
   | 'signal/answer'
   | 'signal/candidate'
+  | 'signal/restart'
   | 'member/identity'
   | 'member/list'
   | 'member/connected'
@@ -37,13 +204,30 @@ export type NekoMessageType =
   | 'control/release'
   | 'control/give'
   | 'control/requesting'
+  | 'control/deny'
   | 'control/clipboard'
   | 'screen/resolution'
   | 'screen/set'
+  | 'screen/configurations'
   | 'admin/lock'
   | 'admin/unlock'
   | 'admin/control'
-  | 'admin/release';
+  | 'admin/release'
+  | 'admin/kick'
+  | 'admin/mute'
+  | 'admin/unmute'
+  | 'cursor/image'
+  | 'cursor/position'
+  | 'presence/pointer'
+  | 'chat/message'
+  | 'upload/start'
+  | 'upload/chunk'
+  | 'upload/cancel'
+  | 'upload/progress'
+  | 'upload/done'
+  | 'upload/error'
+  | 'download/list'
+  | 'download/delete';
 
 export interface NekoMessage {
   event: NekoMessageType;
@@ -58,6 +242,13 @@ export interface SignalProvide {
   audio: string;
 }
 
+// Sent empty by the client to ask for an ICE restart; the server answers
+// with a fresh offer
+export interface SignalRestart {
+  event: 'signal/restart';
+  sdp: string;
+}
+
 export interface SignalCandidate {
   event: 'signal/candidate';
   candidate: RTCIceCandidateInit;
@@ -68,6 +259,63 @@ export interface MemberIdentity {
   id: string;
 }
 
+// Member as sent over the wire by the server
+export interface MemberPayload {
+  id: string;
+  displayname: string;
+  admin: boolean;
+  muted?: boolean;
+}
+
+export interface MemberList {
+  event: 'member/list';
+  members: MemberPayload[];
+}
+
+export interface MemberConnected extends MemberPayload {
+  event: 'member/connected';
+}
+
+export interface MemberDisconnected {
+  event: 'member/disconnected';
+  id: string;
+}
+
+export interface ControlGive {
+  event: 'control/give';
+  id?: string;
+}
+
+// Sent without an id to the requester while its request is pending, and with
+// the requester's id to the member currently in control
+export interface ControlRequesting {
+  event: 'control/requesting';
+  id?: string;
+}
+
+export interface ControlDeny {
+  event: 'control/deny';
+  id?: string;
+}
+
+export interface ControlClipboard {
+  event: 'control/clipboard';
+  text: string;
+}
+
+// Room-wide admin actions, carrying the id of the admin who performed them
+export interface AdminAction {
+  event: 'admin/lock' | 'admin/unlock' | 'admin/control' | 'admin/release';
+  id?: string;
+}
+
+// Admin actions aimed at a single member
+export interface AdminTargetAction {
+  event: 'admin/kick' | 'admin/mute' | 'admin/unmute';
+  id?: string;
+  target: string;
+}
+
 export interface ScreenResolution {
   event: 'screen/resolution';
   width: number;
@@ -75,6 +323,147 @@ export interface ScreenResolution {
   rate: number;
 }
 
+export interface ScreenSet {
+  event: 'screen/set';
+  width: number;
+  height: number;
+  rate: number;
+}
+
+export interface ScreenConfigurations {
+  event: 'screen/configurations';
+  configurations: ScreenConfiguration[];
+}
+
+// Remote pointer image; x and y locate the hotspot within it
+export interface CursorImage {
+  uri: string;
+  width: number;
+  height: number;
+  x: number;
+  y: number;
+}
+
+// Sent without a uri to go back to the default pointer
+export interface CursorImageMessage extends Partial<CursorImage> {
+  event: 'cursor/image';
+}
+
+export interface CursorPosition {
+  event: 'cursor/position';
+  x: number;
+  y: number;
+}
+
+// A member's pointer over the video, in remote pixels
+export interface MemberPointer {
+  x: number;
+  y: number;
+  laser: boolean;
+}
+
+// Sent by the client without an id, and relayed by the server with the
+// sender's id. Leaving out the position hides the pointer
+export interface PresencePointer {
+  event: 'presence/pointer';
+  id?: string;
+  x?: number;
+  y?: number;
+  laser?: boolean;
+}
+
+export interface ChatEntry {
+  // Increasing for the lifetime of the client, so readers can track what
+  // they have seen
+  id: number;
+  kind: 'message' | 'system';
+  // Sender of a message; system entries have none
+  memberId: string | null;
+  displayName: string;
+  content: string;
+  time: number;  // epoch ms
+  self: boolean;
+}
+
+// Sent by the client with only the content; the server relays it to
+// everyone, the sender included, with the sender's id
+export interface ChatMessage {
+  event: 'chat/message';
+  id?: string;
+  content: string;
+}
+
+export type UploadStatus = 'uploading' | 'done' | 'error' | 'cancelled';
+
+// A local file on its way to the remote browser's download folder
+export interface FileUpload {
+  id: string;
+  name: string;
+  size: number;
+  // Bytes the server has written
+  received: number;
+  status: UploadStatus;
+  error: string | null;
+  // Where the server saved the file, once done
+  path: string | null;
+}
+
+// Client -> server. The server answers a start with an upload/progress of
+// 0 bytes, then acknowledges every chunk the same way
+export interface UploadStart {
+  event: 'upload/start';
+  id: string;
+  name: string;
+  size: number;
+}
+
+export interface UploadChunk {
+  event: 'upload/chunk';
+  id: string;
+  offset: number;
+  data: string;  // base64
+}
+
+export interface UploadProgress {
+  event: 'upload/progress';
+  id: string;
+  received: number;
+}
+
+export interface UploadDone {
+  event: 'upload/done';
+  id: string;
+  path: string;
+}
+
+export interface UploadError {
+  event: 'upload/error';
+  id: string;
+  message: string;
+}
+
+export interface RemoteDownload {
+  // File name, unique within the server's download folder
+  id: string;
+  name: string;
+  size: number;
+  modified: number;  // epoch ms
+}
+
+export interface DownloadProgress {
+  received: number;
+  // 0 when the server does not say
+  total: number;
+}
+
+// Sent to each member on joining and whenever the folder changes. The token
+// authorizes fetching files from the server's /downloads endpoint
+export interface DownloadList {
+  event: 'download/list';
+  files: RemoteDownload[];
+  token?: string;
+}
+
 // Input event types
 export interface MousePosition {
   x: number;
@@ -0,0 +1,25 @@
+// Neko Upload - Limits and encoding for files moved to and from the remote browser
+
+export const UPLOAD_MAX_SIZE = 100 * 1024 * 1024;
+// Downloads are held in memory until the browser saves them
+export const DOWNLOAD_MAX_SIZE = 500 * 1024 * 1024;
+export const UPLOAD_CHUNK_SIZE = 64 * 1024;
+// Chunks sent ahead of the server's acknowledgements
+export const UPLOAD_WINDOW = 8;
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+// Chunks travel in JSON messages over the WebSocket
+export function encodeBase64(buffer: ArrayBuffer): string {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
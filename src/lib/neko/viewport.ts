@@ -0,0 +1,156 @@
+// Neko Viewport - Places the remote frame in the local view and maps between the two
+
+import type { Viewport, ViewportMode } from './types';
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Remote frame in local (container) CSS pixels
+export interface FrameRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 8;
+
+export const DEFAULT_VIEWPORT: Viewport = {
+  mode: 'fit',
+  zoom: 1,
+  panX: 0,
+  panY: 0,
+};
+
+export const VIEWPORT_MODE_LABELS: Record<ViewportMode, string> = {
+  fit: 'Fit',
+  fill: 'Fill',
+  actual: '1:1 pixels',
+  stretch: 'Stretch',
+};
+
+export function clampZoom(zoom: number): number {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+function baseScale(container: Size, remote: Size, mode: ViewportMode, pixelRatio: number): Point {
+  const scaleX = container.width / remote.width;
+  const scaleY = container.height / remote.height;
+
+  switch (mode) {
+    case 'fit': return { x: Math.min(scaleX, scaleY), y: Math.min(scaleX, scaleY) };
+    case 'fill': return { x: Math.max(scaleX, scaleY), y: Math.max(scaleX, scaleY) };
+    case 'actual': return { x: 1 / pixelRatio, y: 1 / pixelRatio };
+    case 'stretch': return { x: scaleX, y: scaleY };
+  }
+}
+
+// How far the frame may be panned from center on each axis; a frame that
+// fits the container stays centered
+export function getPanLimits(container: Size, remote: Size, viewport: Viewport, pixelRatio = 1): Point {
+  const scale = baseScale(container, remote, viewport.mode, pixelRatio);
+  const width = remote.width * scale.x * viewport.zoom;
+  const height = remote.height * scale.y * viewport.zoom;
+  return {
+    x: Math.max(0, (width - container.width) / 2),
+    y: Math.max(0, (height - container.height) / 2),
+  };
+}
+
+export function getFrameRect(container: Size, remote: Size, viewport: Viewport, pixelRatio = 1): FrameRect {
+  if (remote.width <= 0 || remote.height <= 0 || container.width <= 0 || container.height <= 0) {
+    return { left: 0, top: 0, width: container.width, height: container.height };
+  }
+
+  const scale = baseScale(container, remote, viewport.mode, pixelRatio);
+  const width = remote.width * scale.x * viewport.zoom;
+  const height = remote.height * scale.y * viewport.zoom;
+  const limits = getPanLimits(container, remote, viewport, pixelRatio);
+  const panX = Math.min(limits.x, Math.max(-limits.x, viewport.panX));
+  const panY = Math.min(limits.y, Math.max(-limits.y, viewport.panY));
+
+  return {
+    left: (container.width - width) / 2 + panX,
+    top: (container.height - height) / 2 + panY,
+    width,
+    height,
+  };
+}
+
+export interface ViewportMapping {
+  frame: FrameRect;
+  // Local point -> remote pixel. Points outside the frame are pulled onto its
+  // edge ('clamp') or ignored ('drop')
+  toRemote: (point: Point, outside: 'clamp' | 'drop') => Point | null;
+  // Remote pixel -> local point, for anything drawn over the video
+  toLocal: (point: Point) => Point;
+  // Local movement -> remote movement
+  scaleToRemote: (delta: Point) => Point;
+}
+
+export function createViewportMapping(frame: FrameRect, remote: Size): ViewportMapping {
+  const scaleX = frame.width > 0 ? remote.width / frame.width : 0;
+  const scaleY = frame.height > 0 ? remote.height / frame.height : 0;
+
+  return {
+    frame,
+    toRemote: ({ x, y }, outside) => {
+      const remoteX = (x - frame.left) * scaleX;
+      const remoteY = (y - frame.top) * scaleY;
+      const inside = remoteX >= 0 && remoteX < remote.width && remoteY >= 0 && remoteY < remote.height;
+
+      if (!inside && outside === 'drop') return null;
+      return {
+        x: Math.min(remote.width - 1, Math.max(0, remoteX)),
+        y: Math.min(remote.height - 1, Math.max(0, remoteY)),
+      };
+    },
+    toLocal: ({ x, y }) => ({
+      x: frame.left + (scaleX > 0 ? x / scaleX : 0),
+      y: frame.top + (scaleY > 0 ? y / scaleY : 0),
+    }),
+    scaleToRemote: ({ x, y }) => ({ x: x * scaleX, y: y * scaleY }),
+  };
+}
+
+function clampPan(container: Size, remote: Size, viewport: Viewport, pixelRatio: number): Viewport {
+  const limits = getPanLimits(container, remote, viewport, pixelRatio);
+  return {
+    ...viewport,
+    panX: Math.min(limits.x, Math.max(-limits.x, viewport.panX)),
+    panY: Math.min(limits.y, Math.max(-limits.y, viewport.panY)),
+  };
+}
+
+export function panViewport(container: Size, remote: Size, viewport: Viewport, delta: Point, pixelRatio = 1): Viewport {
+  return clampPan(container, remote, {
+    ...viewport,
+    panX: viewport.panX + delta.x,
+    panY: viewport.panY + delta.y,
+  }, pixelRatio);
+}
+
+// Change the zoom while keeping the remote pixel under `anchor` in place
+export function zoomViewport(container: Size, remote: Size, viewport: Viewport, zoom: number, anchor: Point, pixelRatio = 1): Viewport {
+  const before = getFrameRect(container, remote, viewport, pixelRatio);
+  const next = { ...viewport, zoom: clampZoom(zoom), panX: 0, panY: 0 };
+  const centered = getFrameRect(container, remote, next, pixelRatio);
+  if (before.width <= 0 || before.height <= 0) return next;
+
+  // Anchor position as a fraction of the frame, before and after
+  const fractionX = (anchor.x - before.left) / before.width;
+  const fractionY = (anchor.y - before.top) / before.height;
+  return clampPan(container, remote, {
+    ...next,
+    panX: anchor.x - centered.left - fractionX * centered.width,
+    panY: anchor.y - centered.top - fractionY * centered.height,
+  }, pixelRatio);
+}
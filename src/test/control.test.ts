@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { FakePeerConnection, FakeWebSocket, connectClient } from "./fakes";
+
+async function connectMember(id: string) {
+  const connected = await connectClient();
+  await connected.ws.receive({ event: "member/identity", id });
+  return connected;
+}
+
+describe("control handoff", () => {
+  beforeEach(() => {
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    vi.stubGlobal("RTCPeerConnection", FakePeerConnection);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    FakeWebSocket.instances = [];
+    FakePeerConnection.instances = [];
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("clears every pending request when control goes to one requester", async () => {
+    const alice = await connectMember("alice");
+    const bob = await connectMember("bob");
+
+    alice.client.requestControl();
+    bob.client.requestControl();
+    await alice.ws.receive({ event: "control/requesting" });
+    await bob.ws.receive({ event: "control/requesting" });
+    expect(alice.client.getState().controlPending).toBe(true);
+    expect(bob.client.getState().controlPending).toBe(true);
+
+    // The server hands control to alice and drops the rest of its queue
+    await alice.ws.receive({ event: "control/give" });
+    await bob.ws.receive({ event: "control/give", id: "alice" });
+
+    expect(alice.client.getState()).toMatchObject({ controlling: true, controlPending: false, controllerId: "alice" });
+    expect(bob.client.getState()).toMatchObject({ controlling: false, controlPending: false, controllerId: "alice" });
+
+    await alice.client.disconnect();
+    await bob.client.disconnect();
+  });
+
+  it("requests control and waits for an answer", async () => {
+    const { client, ws } = await connectMember("bob");
+
+    client.requestControl();
+    expect(ws.sent).toContainEqual({ event: "control/request" });
+    await ws.receive({ event: "control/requesting" });
+
+    expect(client.getState().controlPending).toBe(true);
+    expect(client.getState().controlling).toBe(false);
+
+    await client.disconnect();
+  });
+
+  it("clears the pending request when denied", async () => {
+    const onControlDenied = vi.fn();
+    const { client, ws } = await connectClient({ onControlDenied });
+    await ws.receive({ event: "member/identity", id: "bob" });
+
+    client.requestControl();
+    await ws.receive({ event: "control/requesting" });
+    await ws.receive({ event: "control/deny" });
+
+    expect(client.getState().controlPending).toBe(false);
+    expect(onControlDenied).toHaveBeenCalledTimes(1);
+
+    await client.disconnect();
+  });
+
+  it("queues requests addressed to the controller and answers them", async () => {
+    const onControlRequested = vi.fn();
+    const { client, ws } = await connectClient({ onControlRequested });
+    await ws.receive({ event: "member/identity", id: "alice" });
+    await ws.receive({
+      event: "member/list",
+      members: [
+        { id: "alice", displayname: "Alice", admin: false },
+        { id: "bob", displayname: "Bob", admin: false },
+        { id: "carol", displayname: "Carol", admin: false },
+      ],
+    });
+    await ws.receive({ event: "control/give" });
+
+    await ws.receive({ event: "control/requesting", id: "bob" });
+    await ws.receive({ event: "control/requesting", id: "carol" });
+    await ws.receive({ event: "control/requesting", id: "bob" });
+    expect(client.getState().controlRequests).toEqual(["bob", "carol"]);
+    expect(onControlRequested).toHaveBeenCalledTimes(2);
+
+    client.denyControlRequest("carol");
+    expect(ws.sent).toContainEqual({ event: "control/deny", id: "carol" });
+    expect(client.getState().controlRequests).toEqual(["bob"]);
+
+    client.acceptControlRequest("bob");
+    expect(ws.sent).toContainEqual({ event: "control/give", id: "bob" });
+    expect(client.getState().controlRequests).toEqual([]);
+
+    await ws.receive({ event: "control/give", id: "bob" });
+    expect(client.getState()).toMatchObject({ controlling: false, controllerId: "bob" });
+
+    await client.disconnect();
+  });
+
+  it("loses control when the server releases it", async () => {
+    const onControlReleased = vi.fn();
+    const { client, ws } = await connectClient({ onControlReleased });
+    await ws.receive({ event: "member/identity", id: "alice" });
+    await ws.receive({ event: "control/give" });
+    expect(client.getState().controlling).toBe(true);
+
+    await ws.receive({ event: "control/release" });
+
+    expect(client.getState()).toMatchObject({ controlling: false, controllerId: null, controlPending: false });
+    expect(onControlReleased).toHaveBeenCalledTimes(1);
+
+    await client.disconnect();
+  });
+
+  it("releases control itself", async () => {
+    const { client, ws } = await connectMember("alice");
+    await ws.receive({ event: "control/give" });
+
+    client.releaseControl();
+
+    expect(ws.sent).toContainEqual({ event: "control/release" });
+    expect(client.getState()).toMatchObject({ controlling: false, controllerId: null });
+
+    await client.disconnect();
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { FakePeerConnection, FakeWebSocket, connectClient } from "./fakes";
+
+const files = [
+  { id: "old.pdf", name: "old.pdf", size: 100, modified: 1000 },
+  { id: "new.zip", name: "new.zip", size: 200, modified: 2000 },
+];
+
+describe("downloads", () => {
+  beforeEach(() => {
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    vi.stubGlobal("RTCPeerConnection", FakePeerConnection);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    FakeWebSocket.instances = [];
+    FakePeerConnection.instances = [];
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("lists files newest first and announces only later ones", async () => {
+    const onDownloadAdded = vi.fn();
+    const { client, ws } = await connectClient({ onDownloadAdded });
+
+    await ws.receive({ event: "download/list", files, token: "secret" });
+    expect(client.getState().downloads.map(f => f.id)).toEqual(["new.zip", "old.pdf"]);
+    expect(onDownloadAdded).not.toHaveBeenCalled();
+
+    const added = { id: "report.csv", name: "report.csv", size: 10, modified: 3000 };
+    await ws.receive({ event: "download/list", files: [...files, added] });
+    expect(onDownloadAdded).toHaveBeenCalledWith(added);
+
+    await client.disconnect();
+  });
+
+  it("forgets the list when the connection drops", async () => {
+    const onDownloadsChanged = vi.fn();
+    const onDownloadProgress = vi.fn();
+    const { client, ws } = await connectClient({ onDownloadsChanged, onDownloadProgress });
+    await ws.receive({ event: "download/list", files, token: "secret" });
+
+    ws.onclose?.({ code: 1006, reason: "" });
+
+    expect(client.getState().phase).toBe("reconnecting");
+    expect(client.getState().downloads).toEqual([]);
+    expect(client.getState().downloadProgress).toEqual({});
+    expect(onDownloadsChanged).toHaveBeenLastCalledWith([]);
+    expect(onDownloadProgress).toHaveBeenLastCalledWith({});
+    await expect(client.fetchDownload("new.zip")).rejects.toThrow("Not connected");
+
+    await client.disconnect();
+  });
+});
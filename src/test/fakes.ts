@@ -0,0 +1,88 @@
+// Stand-ins for the browser's WebSocket and RTCPeerConnection, driven by tests
+
+import { expect } from "vitest";
+import { NekoClient } from "@/lib/neko/client";
+import type { NekoEvents } from "@/lib/neko/types";
+
+export class FakeWebSocket {
+  static OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = 0;
+  sent: Record<string, unknown>[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => Promise<void>) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = 3;
+  }
+
+  receive(message: Record<string, unknown>) {
+    return this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+export class FakePeerConnection {
+  static instances: FakePeerConnection[] = [];
+
+  connectionState: RTCPeerConnectionState = "new";
+  iceConnectionState: RTCIceConnectionState = "new";
+  onicecandidate = null;
+  ontrack = null;
+  ondatachannel = null;
+  onconnectionstatechange: (() => void) | null = null;
+  oniceconnectionstatechange: (() => void) | null = null;
+
+  constructor() {
+    FakePeerConnection.instances.push(this);
+  }
+
+  async setRemoteDescription() {}
+  async createAnswer() {
+    return { type: "answer", sdp: "answer" };
+  }
+  async setLocalDescription() {}
+  getReceivers() {
+    return [];
+  }
+  close() {}
+
+  setConnectionState(state: RTCPeerConnectionState) {
+    this.connectionState = state;
+    this.onconnectionstatechange?.();
+  }
+
+  setIceConnectionState(state: RTCIceConnectionState) {
+    this.iceConnectionState = state;
+    this.oniceconnectionstatechange?.();
+  }
+}
+
+// A client connected through the fakes, which must be stubbed in first
+export async function connectClient(events?: NekoEvents) {
+  const client = new NekoClient(events);
+  const connecting = client.connect({ url: "http://neko.test", password: "neko" });
+
+  const ws = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+  ws.readyState = FakeWebSocket.OPEN;
+  ws.onopen?.();
+  await ws.receive({ event: "signal/provide", sdp: "offer" });
+  await connecting;
+
+  const pc = FakePeerConnection.instances[FakePeerConnection.instances.length - 1];
+  pc.iceConnectionState = "connected";
+  pc.setConnectionState("connected");
+  expect(client.getState().phase).toBe("connected");
+
+  return { client, ws, pc };
+}
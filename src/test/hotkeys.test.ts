@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import {
+  BUILTIN_REMAP_PROFILES,
+  DEFAULT_RELEASE_HOTKEY,
+  chordFromEvent,
+  findRemapProfile,
+  formatChord,
+  formatKeyCode,
+  matchesChord,
+} from "@/lib/neko/hotkeys";
+import { getKeysym } from "@/lib/neko/protocol";
+import type { HotkeyChord } from "@/lib/neko/types";
+
+function chord(code: string, modifiers: Partial<Omit<HotkeyChord, "code">> = {}): HotkeyChord {
+  return { code, ctrlKey: false, altKey: false, shiftKey: false, metaKey: false, ...modifiers };
+}
+
+describe("chordFromEvent", () => {
+  it.each<[string, HotkeyChord, HotkeyChord | null]>([
+    ["plain key", chord("KeyA"), chord("KeyA")],
+    ["with modifiers", chord("F12", { shiftKey: true, ctrlKey: true }), chord("F12", { shiftKey: true, ctrlKey: true })],
+    ["all modifiers", chord("Escape", { ctrlKey: true, altKey: true, shiftKey: true, metaKey: true }),
+      chord("Escape", { ctrlKey: true, altKey: true, shiftKey: true, metaKey: true })],
+    ["modifier alone", chord("ShiftLeft", { shiftKey: true }), null],
+    ["right modifier alone", chord("MetaRight", { metaKey: true }), null],
+    ["no code", chord(""), null],
+  ])("%s", (_name, event, expected) => {
+    expect(chordFromEvent(event)).toEqual(expected);
+  });
+
+  it("drops everything but the chord", () => {
+    const event = { ...chord("KeyQ", { altKey: true }), key: "q", repeat: false };
+    expect(chordFromEvent(event)).toEqual(chord("KeyQ", { altKey: true }));
+  });
+});
+
+describe("matchesChord", () => {
+  it.each<[string, HotkeyChord, boolean]>([
+    ["exact chord", chord("F12", { shiftKey: true }), true],
+    ["missing modifier", chord("F12"), false],
+    ["extra modifier", chord("F12", { shiftKey: true, ctrlKey: true }), false],
+    ["other key", chord("F11", { shiftKey: true }), false],
+  ])("%s", (_name, event, expected) => {
+    expect(matchesChord(event, DEFAULT_RELEASE_HOTKEY)).toBe(expected);
+  });
+});
+
+describe("formatChord", () => {
+  it.each<[HotkeyChord, string]>([
+    [DEFAULT_RELEASE_HOTKEY, "Shift+F12"],
+    [chord("KeyK", { ctrlKey: true, altKey: true }), "Ctrl+Alt+K"],
+    [chord("Digit5", { metaKey: true, shiftKey: true }), "Shift+Meta+5"],
+    [chord("ArrowLeft", { ctrlKey: true }), "Ctrl+Left Arrow"],
+    [chord("Escape"), "Escape"],
+  ])("%o as %s", (input, expected) => {
+    expect(formatChord(input)).toBe(expected);
+  });
+});
+
+describe("formatKeyCode", () => {
+  it.each<[string, string]>([
+    ["KeyA", "A"],
+    ["Digit0", "0"],
+    ["ArrowUp", "Up Arrow"],
+    ["ControlLeft", "Ctrl Left"],
+    ["MetaRight", "Meta Right"],
+    ["CapsLock", "CapsLock"],
+    ["F12", "F12"],
+  ])("%s as %s", (code, expected) => {
+    expect(formatKeyCode(code)).toBe(expected);
+  });
+});
+
+describe("findRemapProfile", () => {
+  const custom = { id: "custom", name: "Custom", mappings: { KeyA: "KeyB" } };
+  const profiles = [...BUILTIN_REMAP_PROFILES, custom];
+
+  it.each<[string, string | null, string | null]>([
+    ["builtin profile", "mac-cmd-ctrl", "mac-cmd-ctrl"],
+    ["custom profile", "custom", "custom"],
+    ["unknown id", "missing", null],
+    ["no profile selected", null, null],
+    ["empty id", "", null],
+  ])("%s", (_name, id, expected) => {
+    expect(findRemapProfile(profiles, id)?.id ?? null).toBe(expected);
+  });
+});
+
+describe("remap profiles", () => {
+  // The client sends a remapped key as its target's keysym
+  it.each<[string, string, number]>([
+    ["mac-cmd-ctrl", "MetaLeft", 0xffe3],
+    ["mac-cmd-ctrl", "MetaRight", 0xffe4],
+    ["swap-caps-ctrl", "CapsLock", 0xffe3],
+    ["swap-caps-ctrl", "ControlLeft", 0xffe5],
+  ])("%s sends %s as %i", (id, code, expected) => {
+    const target = findRemapProfile(BUILTIN_REMAP_PROFILES, id)!.mappings[code];
+    expect(getKeysym({ code: target, key: "Unidentified", shiftKey: false })).toBe(expected);
+  });
+
+  it("maps physical keys to physical keys", () => {
+    for (const profile of BUILTIN_REMAP_PROFILES) {
+      for (const target of Object.values(profile.mappings)) {
+        expect(getKeysym({ code: target, key: "Unidentified", shiftKey: false })).not.toBeNull();
+      }
+    }
+  });
+});
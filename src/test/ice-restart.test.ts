@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { DEFAULT_RECONNECT_POLICY } from "@/lib/neko/reconnect";
+import { FakePeerConnection, FakeWebSocket, connectClient } from "./fakes";
+
+function restartRequests(ws: FakeWebSocket) {
+  return ws.sent.filter(message => message.event === "signal/restart").length;
+}
+
+describe("ICE restart", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    vi.stubGlobal("RTCPeerConnection", FakePeerConnection);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    FakeWebSocket.instances = [];
+    FakePeerConnection.instances = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("restarts ICE after the grace period of a dropped connection", async () => {
+    const { client, ws, pc } = await connectClient();
+
+    pc.setConnectionState("disconnected");
+    expect(restartRequests(ws)).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(DEFAULT_RECONNECT_POLICY.iceGracePeriod);
+    expect(restartRequests(ws)).toBe(1);
+    expect(client.getState().iceRestarting).toBe(true);
+
+    await client.disconnect();
+  });
+
+  it("clears the restart when ICE is already connected once the answer is set", async () => {
+    const { client, ws, pc } = await connectClient();
+
+    pc.iceConnectionState = "disconnected";
+    pc.setConnectionState("disconnected");
+    await vi.advanceTimersByTimeAsync(DEFAULT_RECONNECT_POLICY.iceGracePeriod);
+
+    pc.iceConnectionState = "connected";
+    await ws.receive({ event: "signal/restart", sdp: "restart-offer" });
+    expect(ws.sent.some(message => message.event === "signal/answer" && message.sdp === "answer")).toBe(true);
+    expect(client.getState().iceRestarting).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(DEFAULT_RECONNECT_POLICY.iceRestartTimeout);
+    expect(client.getState().phase).toBe("connected");
+
+    await client.disconnect();
+  });
+
+  it("clears the restart when ICE reconnects after the answer", async () => {
+    const { client, ws, pc } = await connectClient();
+
+    pc.iceConnectionState = "disconnected";
+    pc.setConnectionState("disconnected");
+    await vi.advanceTimersByTimeAsync(DEFAULT_RECONNECT_POLICY.iceGracePeriod);
+
+    pc.iceConnectionState = "checking";
+    await ws.receive({ event: "signal/restart", sdp: "restart-offer" });
+    expect(client.getState().iceRestarting).toBe(true);
+
+    pc.setIceConnectionState("completed");
+    expect(client.getState().iceRestarting).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(DEFAULT_RECONNECT_POLICY.iceRestartTimeout);
+    expect(client.getState().phase).toBe("connected");
+
+    await client.disconnect();
+  });
+
+  it("keeps a connection that stayed up through a network change restart", async () => {
+    const { client, ws, pc } = await connectClient();
+
+    pc.iceConnectionState = "checking";
+    window.dispatchEvent(new Event("online"));
+    expect(restartRequests(ws)).toBe(1);
+
+    // No ICE event arrives, but the peer connection never went down
+    await vi.advanceTimersByTimeAsync(DEFAULT_RECONNECT_POLICY.iceRestartTimeout);
+    expect(client.getState().iceRestarting).toBe(false);
+    expect(client.getState().phase).toBe("connected");
+    expect(pc.connectionState).toBe("connected");
+
+    await client.disconnect();
+  });
+
+  it("reconnects when the restart does not bring the connection back", async () => {
+    const { client, ws, pc } = await connectClient();
+
+    pc.iceConnectionState = "disconnected";
+    pc.setConnectionState("disconnected");
+    await vi.advanceTimersByTimeAsync(DEFAULT_RECONNECT_POLICY.iceGracePeriod);
+    expect(restartRequests(ws)).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(DEFAULT_RECONNECT_POLICY.iceRestartTimeout);
+    expect(client.getState().iceRestarting).toBe(false);
+    expect(client.getState().phase).toBe("reconnecting");
+
+    await client.disconnect();
+  });
+});
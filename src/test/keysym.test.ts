@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { getCharKeysym, getKeysym, type KeyInput } from "@/lib/neko/protocol";
+import { KEYBOARD_LAYOUTS, layoutFromMap, matchLayout } from "@/lib/neko/layouts";
+
+function key(code: string, key: string, shiftKey = false): KeyInput {
+  return { code, key, shiftKey };
+}
+
+describe("getKeysym", () => {
+  it.each<[string, KeyInput, number]>([
+    ["lowercase letter", key("KeyA", "a"), 0x61],
+    ["uppercase letter", key("KeyA", "A", true), 0x41],
+    ["digit", key("Digit1", "1"), 0x31],
+    ["space", key("Space", " "), 0x20],
+    ["shifted digit", key("Digit1", "!", true), 0x21],
+    ["shifted digit 2", key("Digit2", "@", true), 0x40],
+    ["shifted minus", key("Minus", "_", true), 0x5f],
+    ["shifted quote", key("Quote", "\"", true), 0x22],
+    ["shifted slash", key("Slash", "?", true), 0x3f],
+    ["shifted backquote", key("Backquote", "~", true), 0x7e],
+    ["AZERTY digit row", key("Digit2", "é"), 0xe9],
+    ["Latin-1 character", key("Semicolon", "ñ"), 0xf1],
+    ["Cyrillic character", key("KeyF", "а"), 0x01000430],
+    ["euro sign", key("KeyE", "€"), 0x010020ac],
+    ["astral character", key("", "😀"), 0x0101f600],
+    ["Enter", key("Enter", "Enter"), 0xff0d],
+    ["Escape", key("Escape", "Escape"), 0xff1b],
+    ["F12", key("F12", "F12"), 0xffc9],
+    ["F24", key("F24", "F24"), 0xffd5],
+    ["PrintScreen", key("PrintScreen", "PrintScreen"), 0xff61],
+    ["Pause", key("Pause", "Pause"), 0xff13],
+    ["ScrollLock", key("ScrollLock", "ScrollLock"), 0xff14],
+    ["NumLock", key("NumLock", "NumLock"), 0xff7f],
+    ["ContextMenu", key("ContextMenu", "ContextMenu"), 0xff67],
+    ["left shift", key("ShiftLeft", "Shift", true), 0xffe1],
+    ["right alt", key("AltRight", "AltGraph"), 0xffea],
+    ["numpad digit with NumLock", key("Numpad7", "7"), 0xffb7],
+    ["numpad home without NumLock", key("Numpad7", "Home"), 0xff95],
+    ["numpad decimal with NumLock", key("NumpadDecimal", "."), 0xffae],
+    ["numpad delete without NumLock", key("NumpadDecimal", "Delete"), 0xff9f],
+    ["numpad add", key("NumpadAdd", "+"), 0xffab],
+    ["numpad enter", key("NumpadEnter", "Enter"), 0xff8d],
+    ["volume mute", key("AudioVolumeMute", "AudioVolumeMute"), 0x1008ff12],
+    ["legacy volume up code", key("VolumeUp", "AudioVolumeUp"), 0x1008ff13],
+    ["play/pause", key("MediaPlayPause", "MediaPlayPause"), 0x1008ff14],
+    ["next track", key("MediaTrackNext", "MediaTrackNext"), 0x1008ff17],
+    ["named key without code", key("", "ArrowLeft"), 0xff51],
+    ["unidentified letter", key("KeyQ", "Unidentified"), 0x71],
+    ["unidentified shifted letter", key("KeyQ", "Unidentified", true), 0x51],
+    ["unidentified shifted punctuation", key("BracketLeft", "Unidentified", true), 0x7b],
+  ])("maps %s", (_name, input, expected) => {
+    expect(getKeysym(input)).toBe(expected);
+  });
+
+  it.each<[string, KeyInput]>([
+    ["unknown named key", key("", "Unidentified")],
+    ["unknown code", key("Lang1", "HangulMode")],
+    ["dead key", key("BracketLeft", "Dead")],
+  ])("returns null for %s", (_name, input) => {
+    expect(getKeysym(input)).toBeNull();
+  });
+});
+
+describe("getCharKeysym", () => {
+  it.each<[string, number | null]>([
+    ["a", 0x61],
+    ["~", 0x7e],
+    ["\u00a0", 0xa0],
+    ["ÿ", 0xff],
+    ["Ā", 0x01000100],
+    ["\n", null],
+    ["\u007f", null],
+    ["\u0085", null],
+  ])("maps %j", (char, expected) => {
+    expect(getCharKeysym(char)).toBe(expected);
+  });
+});
+
+describe("getKeysym with a layout", () => {
+  it.each<[string, KeyInput, keyof typeof KEYBOARD_LAYOUTS, number | null]>([
+    ["QWERTZ y/z swap", key("KeyY", "Unidentified"), "de", 0x7a],
+    ["QWERTZ sharp s", key("Minus", "Unidentified"), "de", 0xdf],
+    ["QWERTZ shifted digit", key("Digit7", "Unidentified", true), "de", 0x2f],
+    ["AZERTY a/q swap", key("KeyQ", "Unidentified"), "fr", 0x61],
+    ["AZERTY digit row", key("Digit2", "Unidentified"), "fr", 0xe9],
+    ["AZERTY shifted digit row", key("Digit2", "Unidentified", true), "fr", 0x32],
+    ["JIS at sign", key("BracketLeft", "Unidentified"), "ja", 0x40],
+    ["JIS yen", key("IntlYen", "Unidentified"), "ja", 0xa5],
+    ["JIS digit zero", key("Digit0", "Unidentified"), "ja", 0x30],
+    ["JIS shifted zero types nothing", key("Digit0", "Unidentified", true), "ja", null],
+    ["reported character wins", key("KeyQ", "q"), "fr", 0x71],
+  ])("maps %s", (_name, input, layout, expected) => {
+    expect(getKeysym(input, KEYBOARD_LAYOUTS[layout].table)).toBe(expected);
+  });
+});
+
+describe("layoutFromMap", () => {
+  it.each<[string, Record<string, string>, string]>([
+    ["us", { KeyQ: "q", KeyY: "y", BracketLeft: "[" }, "us"],
+    ["de", { KeyQ: "q", KeyY: "z", Minus: "ß" }, "de"],
+    ["fr", { KeyQ: "a", KeyA: "q" }, "fr"],
+    ["ja", { KeyQ: "q", BracketLeft: "@" }, "ja"],
+  ])("detects %s", (_name, entries, expected) => {
+    expect(matchLayout(new Map(Object.entries(entries)))).toBe(expected);
+  });
+
+  it("keeps shifted characters of the matched layout and derives the rest", () => {
+    const table = layoutFromMap(new Map(Object.entries({ KeyY: "z", Digit7: "7", Semicolon: "ñ" })));
+    expect(table.Digit7).toEqual(["7", "/"]);
+    expect(table.Semicolon).toEqual(["ñ", "Ñ"]);
+  });
+});
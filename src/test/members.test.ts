@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import type { NekoEvents } from "@/lib/neko/types";
+import { FakePeerConnection, FakeWebSocket, connectClient } from "./fakes";
+
+const roster = [
+  { id: "self", displayname: "Me", admin: false },
+  { id: "alice", displayname: "Alice", admin: true },
+];
+
+async function connectWithRoster(events?: NekoEvents) {
+  const connected = await connectClient(events);
+  await connected.ws.receive({ event: "member/identity", id: "self" });
+  await connected.ws.receive({ event: "member/list", members: roster });
+  return connected;
+}
+
+function systemMessages(state: { chat: { kind: string; content: string }[] }) {
+  return state.chat.filter(entry => entry.kind === "system").map(entry => entry.content);
+}
+
+describe("member roster", () => {
+  beforeEach(() => {
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    vi.stubGlobal("RTCPeerConnection", FakePeerConnection);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    FakeWebSocket.instances = [];
+    FakePeerConnection.instances = [];
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("loads the initial list without announcing anyone", async () => {
+    const onMemberJoined = vi.fn();
+    const { client } = await connectWithRoster({ onMemberJoined });
+
+    expect(client.getState().members).toEqual([
+      { id: "self", displayName: "Me", admin: false, muted: false },
+      { id: "alice", displayName: "Alice", admin: true, muted: false },
+    ]);
+    expect(onMemberJoined).not.toHaveBeenCalled();
+    expect(systemMessages(client.getState())).toEqual([]);
+
+    await client.disconnect();
+  });
+
+  it("adds members that connect", async () => {
+    const onMemberJoined = vi.fn();
+    const { client, ws } = await connectWithRoster({ onMemberJoined });
+
+    await ws.receive({ event: "member/connected", id: "bob", displayname: "Bob", admin: false });
+
+    expect(client.getState().members.map(m => m.id)).toEqual(["self", "alice", "bob"]);
+    expect(onMemberJoined).toHaveBeenCalledWith({ id: "bob", displayName: "Bob", admin: false, muted: false });
+    expect(systemMessages(client.getState())).toEqual(["Bob joined"]);
+
+    await client.disconnect();
+  });
+
+  it("updates a member that connects again", async () => {
+    const onMemberJoined = vi.fn();
+    const { client, ws } = await connectWithRoster({ onMemberJoined });
+
+    await ws.receive({ event: "member/connected", id: "alice", displayname: "Alice B.", admin: true });
+
+    expect(client.getState().members.find(m => m.id === "alice")?.displayName).toBe("Alice B.");
+    expect(client.getState().members).toHaveLength(2);
+    expect(onMemberJoined).not.toHaveBeenCalled();
+
+    await client.disconnect();
+  });
+
+  it("removes members that disconnect, along with their control", async () => {
+    const onMemberLeft = vi.fn();
+    const { client, ws } = await connectWithRoster({ onMemberLeft });
+    await ws.receive({ event: "control/give", id: "alice" });
+
+    await ws.receive({ event: "member/disconnected", id: "alice" });
+
+    expect(client.getState().members.map(m => m.id)).toEqual(["self"]);
+    expect(client.getState().controllerId).toBeNull();
+    expect(onMemberLeft).toHaveBeenCalledWith(expect.objectContaining({ id: "alice" }));
+    expect(systemMessages(client.getState())).toContain("Alice left");
+
+    await client.disconnect();
+  });
+
+  it("ignores unknown members leaving", async () => {
+    const onMemberLeft = vi.fn();
+    const { client, ws } = await connectWithRoster({ onMemberLeft });
+
+    await ws.receive({ event: "member/disconnected", id: "nobody" });
+
+    expect(client.getState().members).toHaveLength(2);
+    expect(onMemberLeft).not.toHaveBeenCalled();
+
+    await client.disconnect();
+  });
+
+  it("announces the difference when a later list arrives", async () => {
+    const onMemberJoined = vi.fn();
+    const onMemberLeft = vi.fn();
+    const { client, ws } = await connectWithRoster({ onMemberJoined, onMemberLeft });
+
+    await ws.receive({
+      event: "member/list",
+      members: [roster[0], { id: "carol", displayname: "Carol", admin: false }],
+    });
+
+    expect(client.getState().members.map(m => m.id)).toEqual(["self", "carol"]);
+    expect(onMemberJoined).toHaveBeenCalledWith(expect.objectContaining({ id: "carol" }));
+    expect(onMemberLeft).toHaveBeenCalledWith(expect.objectContaining({ id: "alice" }));
+    expect(systemMessages(client.getState())).toEqual(["Carol joined", "Alice left"]);
+
+    await client.disconnect();
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { canTransition, isAttemptPhase, isConnectingPhase, PHASE_TRANSITIONS } from "@/lib/neko/phase";
+import { CONNECT_TIMEOUT, NekoClient } from "@/lib/neko/client";
+import type { NekoPhase } from "@/lib/neko/types";
+import { FakePeerConnection, FakeWebSocket } from "./fakes";
+
+const PHASES = Object.keys(PHASE_TRANSITIONS) as NekoPhase[];
+
+describe("canTransition", () => {
+  it.each<[NekoPhase, NekoPhase, boolean]>([
+    ["idle", "signaling", true],
+    ["idle", "connected", false],
+    ["signaling", "authenticating", true],
+    ["signaling", "negotiating", false],
+    ["authenticating", "negotiating", true],
+    ["authenticating", "connected", false],
+    ["negotiating", "connected", true],
+    ["negotiating", "signaling", false],
+    ["connected", "reconnecting", true],
+    ["connected", "signaling", false],
+    ["reconnecting", "signaling", true],
+    ["reconnecting", "connected", false],
+    ["failed", "signaling", true],
+    ["failed", "reconnecting", false],
+    ["closed", "signaling", true],
+    ["closed", "failed", false],
+  ])("%s -> %s is %s", (from, to, expected) => {
+    expect(canTransition(from, to)).toBe(expected);
+  });
+
+  it.each(PHASES)("%s can always close", (phase) => {
+    expect(canTransition(phase, "closed")).toBe(true);
+  });
+
+  it.each(PHASES)("%s never goes back to idle", (phase) => {
+    expect(canTransition(phase, "idle")).toBe(false);
+  });
+
+  it("only reaches connected from negotiating", () => {
+    expect(PHASES.filter(phase => canTransition(phase, "connected"))).toEqual(["negotiating"]);
+  });
+
+  it("only starts an attempt from outside one", () => {
+    expect(PHASES.filter(phase => canTransition(phase, "signaling"))).toEqual(["idle", "reconnecting", "failed", "closed"]);
+  });
+});
+
+describe("isConnectingPhase", () => {
+  it.each<[NekoPhase, boolean, boolean]>([
+    ["idle", false, false],
+    ["signaling", true, true],
+    ["authenticating", true, true],
+    ["negotiating", true, true],
+    ["connected", false, false],
+    ["reconnecting", true, false],
+    ["failed", false, false],
+    ["closed", false, false],
+  ])("%s: connecting %s, attempt %s", (phase, connecting, attempt) => {
+    expect(isConnectingPhase(phase)).toBe(connecting);
+    expect(isAttemptPhase(phase)).toBe(attempt);
+  });
+
+  it.each(PHASES.filter(isAttemptPhase))("%s can fail or retry", (phase) => {
+    expect(canTransition(phase, "failed")).toBe(true);
+    expect(canTransition(phase, "reconnecting")).toBe(true);
+  });
+});
+
+describe("connection timeout", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    vi.stubGlobal("RTCPeerConnection", FakePeerConnection);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    FakeWebSocket.instances = [];
+    FakePeerConnection.instances = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  function startConnecting() {
+    const client = new NekoClient();
+    const connecting = client.connect({ url: "http://neko.test", password: "neko" });
+    const ws = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+    return { client, connecting, ws };
+  }
+
+  function open(ws: FakeWebSocket) {
+    ws.readyState = FakeWebSocket.OPEN;
+    ws.onopen?.();
+  }
+
+  it("fails an attempt stuck signaling", async () => {
+    const { client, connecting } = startConnecting();
+    expect(client.getState().phase).toBe("signaling");
+
+    const failed = expect(connecting).rejects.toThrow("Connection timeout");
+    await vi.advanceTimersByTimeAsync(CONNECT_TIMEOUT);
+    await failed;
+    expect(client.getState().phase).toBe("failed");
+  });
+
+  it("fails an attempt stuck authenticating", async () => {
+    const { client, connecting, ws } = startConnecting();
+    open(ws);
+    expect(client.getState().phase).toBe("authenticating");
+
+    const failed = expect(connecting).rejects.toThrow("Connection timeout");
+    await vi.advanceTimersByTimeAsync(CONNECT_TIMEOUT);
+    await failed;
+    expect(client.getState().phase).toBe("failed");
+  });
+
+  it("fails an attempt stuck negotiating", async () => {
+    const { client, connecting, ws } = startConnecting();
+    open(ws);
+    await ws.receive({ event: "signal/provide", sdp: "offer" });
+    await connecting;
+    expect(client.getState().phase).toBe("negotiating");
+
+    await vi.advanceTimersByTimeAsync(CONNECT_TIMEOUT);
+    expect(client.getState().phase).toBe("failed");
+    expect(client.getState().error).toBe("Connection timeout");
+  });
+
+  it("stops once connected", async () => {
+    const { client, connecting, ws } = startConnecting();
+    open(ws);
+    await ws.receive({ event: "signal/provide", sdp: "offer" });
+    await connecting;
+    FakePeerConnection.instances[0].setConnectionState("connected");
+
+    await vi.advanceTimersByTimeAsync(CONNECT_TIMEOUT * 2);
+    expect(client.getState().phase).toBe("connected");
+
+    await client.disconnect();
+  });
+
+  it("stops when the session ends", async () => {
+    const { client, ws } = startConnecting();
+    open(ws);
+    await client.disconnect();
+    expect(client.getState().phase).toBe("closed");
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_RECONNECT_POLICY, getReconnectDelay, resolveReconnectPolicy } from "@/lib/neko/reconnect";
+import type { ReconnectPolicy } from "@/lib/neko/types";
+
+const noJitter: ReconnectPolicy = { ...DEFAULT_RECONNECT_POLICY, jitter: 0 };
+
+describe("getReconnectDelay", () => {
+  it.each<[string, number, number]>([
+    ["first attempt", 1, 1000],
+    ["second attempt", 2, 2000],
+    ["third attempt", 3, 4000],
+    ["fifth attempt", 5, 16000],
+    ["capped at the maximum", 6, 30000],
+    ["stays capped", 20, 30000],
+    ["attempt 0 counts as the first", 0, 1000],
+  ])("backs off: %s", (_name, attempt, expected) => {
+    expect(getReconnectDelay(noJitter, attempt)).toBe(expected);
+  });
+
+  it.each<[string, number, number, number]>([
+    ["no shave at random 0", 0.3, 0, 4000],
+    ["full shave at random 1", 0.3, 1, 2800],
+    ["half shave", 0.3, 0.5, 3400],
+    ["jitter above 1 is clamped", 2, 1, 0],
+    ["negative jitter is ignored", -0.5, 1, 4000],
+  ])("jitters: %s", (_name, jitter, random, expected) => {
+    const policy = { ...DEFAULT_RECONNECT_POLICY, jitter };
+    expect(getReconnectDelay(policy, 3, () => random)).toBe(expected);
+  });
+
+  it("never exceeds the capped delay", () => {
+    for (let attempt = 1; attempt <= 10; attempt++) {
+      const delay = getReconnectDelay(DEFAULT_RECONNECT_POLICY, attempt);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(DEFAULT_RECONNECT_POLICY.maxDelay);
+    }
+  });
+});
+
+describe("resolveReconnectPolicy", () => {
+  it.each<[string, Partial<ReconnectPolicy> | undefined, ReconnectPolicy]>([
+    ["defaults without overrides", undefined, DEFAULT_RECONNECT_POLICY],
+    ["empty overrides", {}, DEFAULT_RECONNECT_POLICY],
+    ["single override", { maxAttempts: 10 }, { ...DEFAULT_RECONNECT_POLICY, maxAttempts: 10 }],
+    [
+      "several overrides",
+      { baseDelay: 500, giveUp: "close", iceRestartTimeout: 5000 },
+      { ...DEFAULT_RECONNECT_POLICY, baseDelay: 500, giveUp: "close", iceRestartTimeout: 5000 },
+    ],
+  ])("%s", (_name, overrides, expected) => {
+    expect(resolveReconnectPolicy(overrides)).toEqual(expected);
+  });
+
+  it("does not share the default object", () => {
+    expect(resolveReconnectPolicy()).not.toBe(DEFAULT_RECONNECT_POLICY);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { findClosestMode, type ScreenMode } from "@/lib/neko/resolution";
+import type { ScreenConfiguration } from "@/lib/neko/types";
+
+const configurations: ScreenConfiguration[] = [
+  { width: 2560, height: 1440, rates: [30] },
+  { width: 1920, height: 1080, rates: [60, 30] },
+  { width: 1600, height: 900, rates: [60, 30] },
+  { width: 1280, height: 720, rates: [60, 30] },
+];
+
+describe("findClosestMode", () => {
+  it.each<[string, number, number, number | undefined, ScreenMode]>([
+    ["exact match", 1920, 1080, 30, { width: 1920, height: 1080, rate: 30 }],
+    ["largest that fits", 1900, 1200, 30, { width: 1600, height: 900, rate: 30 }],
+    ["larger than every mode", 3840, 2160, 30, { width: 2560, height: 1440, rate: 30 }],
+    ["nothing fits: smallest mode", 800, 600, 30, { width: 1280, height: 720, rate: 30 }],
+    ["must fit both axes", 2560, 1000, 30, { width: 1600, height: 900, rate: 30 }],
+    ["portrait window", 1080, 1920, 60, { width: 1280, height: 720, rate: 60 }],
+    ["keeps the preferred rate", 1920, 1080, 60, { width: 1920, height: 1080, rate: 60 }],
+    ["rate not offered: highest", 2560, 1440, 60, { width: 2560, height: 1440, rate: 30 }],
+    ["no preferred rate: highest", 1600, 900, undefined, { width: 1600, height: 900, rate: 60 }],
+  ])("%s", (_name, width, height, rate, expected) => {
+    expect(findClosestMode(configurations, width, height, rate)).toEqual(expected);
+  });
+
+  it("does not depend on the order of configurations", () => {
+    expect(findClosestMode([...configurations].reverse(), 1900, 1200, 30))
+      .toEqual({ width: 1600, height: 900, rate: 30 });
+  });
+
+  it("has nothing to pick without configurations", () => {
+    expect(findClosestMode([], 1920, 1080)).toBeNull();
+  });
+});
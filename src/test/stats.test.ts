@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { computeStats, type StatsSnapshot } from "@/lib/neko/stats";
+import type { NekoStats } from "@/lib/neko/types";
+
+type Stat = Record<string, unknown>;
+
+function report(...stats: Stat[]): RTCStatsReport {
+  return new Map(stats.map(stat => [stat.id as string, stat])) as unknown as RTCStatsReport;
+}
+
+function video(stat: Stat): Stat {
+  return { id: "video", type: "inbound-rtp", kind: "video", ...stat };
+}
+
+const previous: StatsSnapshot = {
+  timestamp: 10000,
+  bytesReceived: 500000,
+  framesDecoded: 300,
+  framesDropped: 2,
+  totalDecodeTime: 1.5,
+  packetsReceived: 1000,
+  packetsLost: 10,
+};
+
+describe("computeStats deltas", () => {
+  it.each<[string, Stat, StatsSnapshot | null, Partial<NekoStats>]>([
+    [
+      "first sample has no rates",
+      { timestamp: 10000, bytesReceived: 500000, framesDecoded: 300, framesDropped: 2, totalDecodeTime: 1.5 },
+      null,
+      { bitrate: 0, fps: 0, framesDropped: 2, decodeTime: 5 },
+    ],
+    [
+      "one second later",
+      { timestamp: 11000, bytesReceived: 625000, framesDecoded: 332, framesDropped: 3, totalDecodeTime: 1.75 },
+      previous,
+      { bitrate: 1000, fps: 32, framesDropped: 1, decodeTime: 7.8125 },
+    ],
+    [
+      "half a second later",
+      { timestamp: 10500, bytesReceived: 562500, framesDecoded: 315, framesDropped: 2, totalDecodeTime: 1.5 },
+      previous,
+      { bitrate: 1000, fps: 30, framesDropped: 0, decodeTime: 0 },
+    ],
+    [
+      "reported frame rate wins",
+      { timestamp: 11000, framesDecoded: 330, framesPerSecond: 24 },
+      previous,
+      { fps: 24 },
+    ],
+    [
+      "counters that went backwards clamp to zero",
+      { timestamp: 11000, bytesReceived: 100, framesDecoded: 10, framesDropped: 0, packetsReceived: 5 },
+      previous,
+      { bitrate: 0, fps: 0, framesDropped: 0, decodeTime: 0, packetLoss: 0 },
+    ],
+    [
+      "packet loss over the interval",
+      { timestamp: 11000, packetsReceived: 1090, packetsLost: 20 },
+      previous,
+      { packetLoss: 10 },
+    ],
+    [
+      "jitter in milliseconds",
+      { timestamp: 11000, jitter: 0.015 },
+      previous,
+      { jitter: 15 },
+    ],
+    [
+      "no interval does not divide by zero",
+      { timestamp: 10000, bytesReceived: 500125, framesDecoded: 300 },
+      previous,
+      { bitrate: 1000, fps: 0 },
+    ],
+  ])("%s", (_name, stat, before, expected) => {
+    const { stats } = computeStats(report(video(stat)), before);
+    expect(stats).toMatchObject(expected);
+  });
+
+  it("returns the counters for the next sample", () => {
+    const { snapshot } = computeStats(report(video({
+      timestamp: 11000, bytesReceived: 625000, framesDecoded: 330, framesDropped: 3,
+      totalDecodeTime: 1.8, packetsReceived: 1090, packetsLost: 20,
+    })), previous);
+    expect(snapshot).toEqual({
+      timestamp: 11000, bytesReceived: 625000, framesDecoded: 330, framesDropped: 3,
+      totalDecodeTime: 1.8, packetsReceived: 1090, packetsLost: 20,
+    });
+  });
+
+  it("ignores audio and missing values", () => {
+    const { stats } = computeStats(report(
+      { id: "audio", type: "inbound-rtp", kind: "audio", bytesReceived: 999999, timestamp: 11000 },
+      video({ timestamp: 11000, bytesReceived: Number.NaN }),
+    ), previous);
+    expect(stats.bitrate).toBe(0);
+  });
+});
+
+describe("computeStats candidate pair", () => {
+  const candidates: Stat[] = [
+    { id: "local", type: "local-candidate", candidateType: "srflx" },
+    { id: "remote", type: "remote-candidate", candidateType: "relay" },
+  ];
+
+  it.each<[string, Stat[], Partial<NekoStats>]>([
+    [
+      "referenced by the transport",
+      [
+        { id: "transport", type: "transport", selectedCandidatePairId: "pair" },
+        { id: "pair", type: "candidate-pair", localCandidateId: "local", remoteCandidateId: "remote", currentRoundTripTime: 0.042 },
+      ],
+      { rtt: 42, localCandidateType: "srflx", remoteCandidateType: "relay" },
+    ],
+    [
+      "flagged as selected",
+      [{ id: "pair", type: "candidate-pair", selected: true, localCandidateId: "local", remoteCandidateId: "remote", currentRoundTripTime: 0.1 }],
+      { rtt: 100, localCandidateType: "srflx", remoteCandidateType: "relay" },
+    ],
+    [
+      "nominated and succeeded",
+      [{ id: "pair", type: "candidate-pair", nominated: true, state: "succeeded", localCandidateId: "local", remoteCandidateId: "remote" }],
+      { rtt: null, localCandidateType: "srflx", remoteCandidateType: "relay" },
+    ],
+    [
+      "no selected pair",
+      [{ id: "pair", type: "candidate-pair", nominated: true, state: "in-progress", currentRoundTripTime: 0.1 }],
+      { rtt: null, localCandidateType: null, remoteCandidateType: null },
+    ],
+  ])("%s", (_name, stats, expected) => {
+    const result = computeStats(report(video({ timestamp: 11000 }), ...candidates, ...stats), previous);
+    expect(result.stats).toMatchObject(expected);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  DOWNLOAD_MAX_SIZE,
+  UPLOAD_CHUNK_SIZE,
+  UPLOAD_MAX_SIZE,
+  UPLOAD_WINDOW,
+  encodeBase64,
+  formatBytes,
+} from "@/lib/neko/upload";
+import { FakePeerConnection, FakeWebSocket, connectClient } from "./fakes";
+
+function bytes(...values: number[]): ArrayBuffer {
+  return new Uint8Array(values).buffer;
+}
+
+describe("encodeBase64", () => {
+  it.each<[string, ArrayBuffer, string]>([
+    ["empty", bytes(), ""],
+    ["one byte", bytes(0x66), "Zg=="],
+    ["two bytes", bytes(0x66, 0x6f), "Zm8="],
+    ["text", new TextEncoder().encode("foobar").buffer, "Zm9vYmFy"],
+    ["binary", bytes(0x00, 0xff, 0x80), "AP+A"],
+  ])("%s", (_name, buffer, expected) => {
+    expect(encodeBase64(buffer)).toBe(expected);
+  });
+
+  it("encodes a whole chunk across its internal slices", () => {
+    const chunk = new Uint8Array(UPLOAD_CHUNK_SIZE + 5).map((_, i) => i % 256);
+    expect(encodeBase64(chunk.buffer)).toBe(Buffer.from(chunk).toString("base64"));
+  });
+});
+
+describe("formatBytes", () => {
+  it.each<[number, string]>([
+    [0, "0 B"],
+    [1023, "1023 B"],
+    [1024, "1.0 KB"],
+    [1536, "1.5 KB"],
+    [UPLOAD_CHUNK_SIZE, "64.0 KB"],
+    [1024 * 1024, "1.0 MB"],
+    [UPLOAD_MAX_SIZE, "100.0 MB"],
+    [DOWNLOAD_MAX_SIZE, "500.0 MB"],
+    [1024 * 1024 * 1024, "1.0 GB"],
+  ])("%i as %s", (size, expected) => {
+    expect(formatBytes(size)).toBe(expected);
+  });
+});
+
+describe("upload limits", () => {
+  it("keeps a full window well under the size limit", () => {
+    expect(UPLOAD_WINDOW * UPLOAD_CHUNK_SIZE).toBeLessThan(UPLOAD_MAX_SIZE);
+  });
+});
+
+describe("uploadFile", () => {
+  // File stand-in: jsdom blobs cannot be read back as array buffers
+  function fakeFile(name: string, size: number): File {
+    return {
+      name,
+      size,
+      slice: (start: number, end: number) => ({
+        arrayBuffer: async () => new Uint8Array(end - start).buffer,
+      }),
+    } as unknown as File;
+  }
+
+  // Lets file reads and the sends after them finish
+  const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  function chunks(ws: FakeWebSocket) {
+    return ws.sent.filter(message => message.event === "upload/chunk") as { id: string; offset: number; data: string }[];
+  }
+
+  async function controllingClient() {
+    const connected = await connectClient();
+    await connected.ws.receive({ event: "control/give" });
+    expect(connected.client.getState().controlling).toBe(true);
+    return connected;
+  }
+
+  beforeEach(() => {
+    vi.stubGlobal("WebSocket", FakeWebSocket);
+    vi.stubGlobal("RTCPeerConnection", FakePeerConnection);
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    FakeWebSocket.instances = [];
+    FakePeerConnection.instances = [];
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it.each<[string, number, boolean]>([
+    ["empty file", 0, true],
+    ["exactly the limit", UPLOAD_MAX_SIZE, true],
+    ["over the limit", UPLOAD_MAX_SIZE + 1, false],
+  ])("%s", async (_name, size, accepted) => {
+    const { client, ws } = await controllingClient();
+    client.uploadFile(fakeFile("file.bin", size));
+
+    const [upload] = client.getState().uploads;
+    expect(ws.sent.some(message => message.event === "upload/start")).toBe(accepted);
+    expect(upload.status).toBe(accepted ? "uploading" : "error");
+    expect(upload.error).toBe(accepted ? null : "Larger than 100.0 MB");
+
+    await client.disconnect();
+  });
+
+  it("sends nothing without control", async () => {
+    const { client, ws } = await connectClient();
+    client.uploadFile(fakeFile("file.bin", 10));
+
+    expect(client.getState().uploads).toEqual([]);
+    expect(ws.sent.some(message => message.event === "upload/start")).toBe(false);
+
+    await client.disconnect();
+  });
+
+  it("sends a window of chunks ahead of acknowledgements", async () => {
+    const { client, ws } = await controllingClient();
+    const size = (UPLOAD_WINDOW + 2) * UPLOAD_CHUNK_SIZE + 100;
+    client.uploadFile(fakeFile("big.bin", size));
+    const { id } = client.getState().uploads[0];
+
+    // Nothing goes out until the server accepts the upload
+    await flush();
+    expect(chunks(ws)).toHaveLength(0);
+
+    await ws.receive({ event: "upload/progress", id, received: 0 });
+    await flush();
+    expect(chunks(ws).map(chunk => chunk.offset))
+      .toEqual(Array.from({ length: UPLOAD_WINDOW }, (_, i) => i * UPLOAD_CHUNK_SIZE));
+
+    // Each acknowledgement opens room for as many chunks as it covers
+    await ws.receive({ event: "upload/progress", id, received: 2 * UPLOAD_CHUNK_SIZE });
+    await flush();
+    expect(chunks(ws)).toHaveLength(UPLOAD_WINDOW + 2);
+    expect(client.getState().uploads[0].received).toBe(2 * UPLOAD_CHUNK_SIZE);
+
+    await ws.receive({ event: "upload/progress", id, received: 3 * UPLOAD_CHUNK_SIZE });
+    await flush();
+    const sent = chunks(ws);
+    expect(sent).toHaveLength(UPLOAD_WINDOW + 3);
+
+    // Every byte is sent once, the last chunk holding the remainder
+    const lengths = sent.map(chunk => atob(chunk.data).length);
+    expect(lengths[lengths.length - 1]).toBe(100);
+    expect(lengths.reduce((total, length) => total + length, 0)).toBe(size);
+
+    await client.disconnect();
+  });
+
+  it("stops sending once cancelled", async () => {
+    const { client, ws } = await controllingClient();
+    client.uploadFile(fakeFile("big.bin", 4 * UPLOAD_WINDOW * UPLOAD_CHUNK_SIZE));
+    const { id } = client.getState().uploads[0];
+
+    client.cancelUpload(id);
+    await ws.receive({ event: "upload/progress", id, received: 0 });
+    await flush();
+
+    expect(chunks(ws)).toHaveLength(0);
+    expect(ws.sent.some(message => message.event === "upload/cancel" && message.id === id)).toBe(true);
+    expect(client.getState().uploads[0].status).toBe("cancelled");
+
+    await client.disconnect();
+  });
+});
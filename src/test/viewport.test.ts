@@ -0,0 +1,121 @@
+import { describe, it, expect } from "vitest";
+import {
+  createViewportMapping,
+  getFrameRect,
+  panViewport,
+  zoomViewport,
+  type FrameRect,
+  type Point,
+} from "@/lib/neko/viewport";
+import type { Viewport, ViewportMode } from "@/lib/neko/types";
+
+const container = { width: 800, height: 600 };
+const remote = { width: 1600, height: 800 };
+
+function view(mode: ViewportMode, zoom = 1, panX = 0, panY = 0): Viewport {
+  return { mode, zoom, panX, panY };
+}
+
+describe("getFrameRect", () => {
+  it.each<[string, Viewport, number, FrameRect]>([
+    ["fit letterboxes", view("fit"), 1, { left: 0, top: 100, width: 800, height: 400 }],
+    ["fill crops", view("fill"), 1, { left: -200, top: 0, width: 1200, height: 600 }],
+    ["actual pixels", view("actual"), 1, { left: -400, top: -100, width: 1600, height: 800 }],
+    ["actual pixels on a 2x display", view("actual"), 2, { left: 0, top: 100, width: 800, height: 400 }],
+    ["stretch fills both axes", view("stretch"), 1, { left: 0, top: 0, width: 800, height: 600 }],
+    ["fit zoomed in", view("fit", 2), 1, { left: -400, top: -100, width: 1600, height: 800 }],
+    ["fit zoomed and panned", view("fit", 2, 100, -50), 1, { left: -300, top: -150, width: 1600, height: 800 }],
+    ["pan is clamped to the frame edge", view("fit", 2, 1000, -1000), 1, { left: 0, top: -200, width: 1600, height: 800 }],
+    ["a frame that fits stays centered", view("fit", 1, 50, 50), 1, { left: 0, top: 100, width: 800, height: 400 }],
+    ["fill pans only along the cropped axis", view("fill", 1, 500, 500), 1, { left: 0, top: 0, width: 1200, height: 600 }],
+    ["stretch zoomed in", view("stretch", 2), 1, { left: -400, top: -300, width: 1600, height: 1200 }],
+  ])("%s", (_name, viewport, pixelRatio, expected) => {
+    expect(getFrameRect(container, remote, viewport, pixelRatio)).toEqual(expected);
+  });
+
+  it.each([
+    ["no remote size", container, { width: 0, height: 0 }],
+    ["no container size", { width: 0, height: 0 }, remote],
+  ])("covers the container with %s", (_name, local, source) => {
+    expect(getFrameRect(local, source, view("fit"))).toEqual({ left: 0, top: 0, ...local });
+  });
+});
+
+describe("createViewportMapping", () => {
+  const mapping = createViewportMapping({ left: 0, top: 100, width: 800, height: 400 }, remote);
+
+  it.each<[string, Point, "clamp" | "drop", Point | null]>([
+    ["center", { x: 400, y: 300 }, "drop", { x: 800, y: 400 }],
+    ["frame origin", { x: 0, y: 100 }, "drop", { x: 0, y: 0 }],
+    ["letterbox dropped", { x: 10, y: 50 }, "drop", null],
+    ["letterbox clamped", { x: 10, y: 50 }, "clamp", { x: 20, y: 0 }],
+    ["far edge dropped", { x: 800, y: 500 }, "drop", null],
+    ["far edge clamped to the last pixel", { x: 800, y: 500 }, "clamp", { x: 1599, y: 799 }],
+    ["outside on both axes", { x: -50, y: 900 }, "clamp", { x: 0, y: 799 }],
+  ])("maps %s to remote", (_name, point, outside, expected) => {
+    expect(mapping.toRemote(point, outside)).toEqual(expected);
+  });
+
+  it.each<[Point, Point]>([
+    [{ x: 0, y: 0 }, { x: 0, y: 100 }],
+    [{ x: 800, y: 400 }, { x: 400, y: 300 }],
+    [{ x: 1600, y: 800 }, { x: 800, y: 500 }],
+  ])("maps remote %o back to local %o", (point, expected) => {
+    expect(mapping.toLocal(point)).toEqual(expected);
+  });
+
+  it("round-trips points inside the frame", () => {
+    const point = { x: 123, y: 234 };
+    expect(mapping.toLocal(mapping.toRemote(point, "drop")!)).toEqual(point);
+  });
+
+  it("scales movement", () => {
+    expect(mapping.scaleToRemote({ x: 3, y: -4 })).toEqual({ x: 6, y: -8 });
+  });
+
+  it("maps anisotropically when stretched", () => {
+    const stretched = createViewportMapping(getFrameRect(container, remote, view("stretch")), remote);
+    expect(stretched.toRemote({ x: 400, y: 300 }, "drop")).toEqual({ x: 800, y: 400 });
+    expect(stretched.scaleToRemote({ x: 3, y: 3 })).toEqual({ x: 6, y: 4 });
+  });
+
+  it("maps nothing onto an empty frame", () => {
+    const empty = createViewportMapping({ left: 0, top: 0, width: 0, height: 0 }, remote);
+    expect(empty.scaleToRemote({ x: 5, y: 5 })).toEqual({ x: 0, y: 0 });
+    expect(empty.toLocal({ x: 5, y: 5 })).toEqual({ x: 0, y: 0 });
+  });
+});
+
+describe("zoomViewport", () => {
+  it.each<[string, Viewport, number, Point, Viewport]>([
+    ["zoom around the center", view("fit"), 2, { x: 400, y: 300 }, view("fit", 2, 0, 0)],
+    ["zoom around a corner is clamped", view("fit"), 2, { x: 0, y: 100 }, view("fit", 2, 400, 100)],
+    ["zoom around a point", view("fit"), 2, { x: 200, y: 300 }, view("fit", 2, 200, 0)],
+    ["zoom is capped", view("fit"), 20, { x: 400, y: 300 }, view("fit", 8, 0, 0)],
+    ["zoom below 1 resets", view("fit", 2, 100, 50), 0.5, { x: 400, y: 300 }, view("fit", 1, 0, 0)],
+    ["zoom keeps the mode", view("fill"), 2, { x: 400, y: 300 }, view("fill", 2, 0, 0)],
+  ])("%s", (_name, viewport, zoom, anchor, expected) => {
+    expect(zoomViewport(container, remote, viewport, zoom, anchor)).toEqual(expected);
+  });
+
+  it("keeps the remote pixel under the anchor in place", () => {
+    const anchor = { x: 200, y: 300 };
+    const before = createViewportMapping(getFrameRect(container, remote, view("fit")), remote);
+    const zoomed = zoomViewport(container, remote, view("fit"), 2, anchor);
+    const after = createViewportMapping(getFrameRect(container, remote, zoomed), remote);
+    expect(after.toRemote(anchor, "drop")).toEqual(before.toRemote(anchor, "drop"));
+  });
+});
+
+describe("panViewport", () => {
+  it.each<[string, Viewport, Point, Viewport]>([
+    ["pans a zoomed frame", view("fit", 2), { x: 100, y: -50 }, view("fit", 2, 100, -50)],
+    ["adds to the current pan", view("fit", 2, 100, -50), { x: 100, y: -25 }, view("fit", 2, 200, -75)],
+    ["stops at the frame edge", view("fit", 2), { x: 1000, y: 1000 }, view("fit", 2, 400, 100)],
+    ["keeps a fitting frame centered", view("fit"), { x: 100, y: 100 }, view("fit", 1, 0, 0)],
+    ["fill pans along the cropped axis", view("fill"), { x: 300, y: 50 }, view("fill", 1, 200, 0)],
+    ["actual pixels pan both axes", view("actual"), { x: -500, y: -500 }, view("actual", 1, -400, -100)],
+  ])("%s", (_name, viewport, delta, expected) => {
+    expect(panViewport(container, remote, viewport, delta)).toEqual(expected);
+  });
+});